@@ -2,20 +2,52 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Command } from 'commander';
 import {
-	formatHledgerJournal,
+	formatHledgerJournalWithReport,
 	sortHledgerJournal,
+	verifyJournalEquivalence,
 	DEFAULT_FORMATTER_OPTIONS,
-	type FormatterOptions
+	type CommodityLayout,
+	type FormatterOptions,
+	type SortOptions
 } from '@hledger-fmt/formatter';
 
+interface CommodityConfigShape {
+	negativeStyle?: string;
+	spacing?: string;
+	side?: string;
+}
+
 interface FormatConfigShape {
 	format?: {
 		alignment?: string;
 		column?: number;
 		indent?: number;
+		indentStyle?: string;
+		tabWidth?: number;
 		negativeStyle?: string;
 		dateFormat?: string;
 		commentChar?: string;
+		expandShortDates?: boolean;
+		alignAssertions?: boolean;
+		normalizeAmounts?: boolean;
+		commoditySpacing?: string;
+		commoditySide?: string;
+		commodities?: Record<string, CommodityConfigShape>;
+		commentAlignment?: string;
+		commentColumn?: number;
+		normalizeComments?: boolean;
+		normalizeTags?: boolean;
+		sortTags?: boolean;
+		tagPlacement?: string;
+		normalizeDescriptions?: boolean;
+		payees?: Record<string, string>;
+		statusSpacing?: string;
+		transactionBlankLines?: number;
+		directiveBlankLines?: number | null;
+		maxBlankLines?: number | null;
+		trimTrailingWhitespace?: boolean;
+		finalNewline?: boolean;
+		lineEnding?: string;
 	};
 }
 
@@ -23,11 +55,39 @@ interface FormatCommandOptions {
 	alignment?: string;
 	column?: string;
 	indent?: string;
+	indentStyle?: string;
+	tabWidth?: string;
 	negativeStyle?: string;
 	dateFormat?: string;
 	commentChar?: string;
+	expandShortDates?: boolean;
+	alignAssertions?: boolean;
+	normalizeAmounts?: boolean;
+	commoditySpacing?: string;
+	commoditySide?: string;
+	commentAlignment?: string;
+	commentColumn?: string;
+	normalizeComments?: boolean;
+	normalizeTags?: boolean;
+	sortTags?: boolean;
+	tagPlacement?: string;
+	normalizeDescriptions?: boolean;
+	statusSpacing?: string;
+	transactionBlankLines?: string;
+	directiveBlankLines?: string;
+	maxBlankLines?: string;
+	trimTrailingWhitespace?: boolean;
+	finalNewline?: boolean;
+	lineEnding?: string;
 	config?: string;
 	inPlace?: boolean;
+	verify?: boolean;
+}
+
+interface SortCommandOptions {
+	undatedPlacement?: string;
+	inPlace?: boolean;
+	verify?: boolean;
 }
 
 interface InitCommandOptions {
@@ -35,10 +95,18 @@ interface InitCommandOptions {
 	force?: boolean;
 }
 
-const VALID_ALIGNMENTS = new Set<FormatterOptions['amountAlignment']>(['fixedColumn', 'widest']);
+const VALID_ALIGNMENTS = new Set<FormatterOptions['amountAlignment']>(['fixedColumn', 'widest', 'decimal', 'right']);
 const VALID_NEGATIVE_STYLES = new Set<FormatterOptions['negativeCommodityStyle']>(['signBeforeSymbol', 'symbolBeforeSign']);
+const VALID_COMMODITY_SPACINGS = new Set<FormatterOptions['commoditySpacing']>(['preserve', 'spaced', 'unspaced']);
+const VALID_COMMODITY_SIDES = new Set<FormatterOptions['commoditySide']>(['preserve', 'left', 'right']);
+const VALID_COMMENT_ALIGNMENTS = new Set<FormatterOptions['commentAlignment']>(['preserve', 'fixedColumn', 'widest']);
+const VALID_TAG_PLACEMENTS = new Set<FormatterOptions['tagPlacement']>(['preserve', 'inline', 'separateLine']);
+const VALID_STATUS_SPACINGS = new Set<FormatterOptions['statusSpacing']>(['preserve', 'spaced', 'unspaced']);
+const VALID_INDENT_STYLES = new Set<FormatterOptions['indentStyle']>(['spaces', 'tabs']);
+const VALID_LINE_ENDINGS = new Set<FormatterOptions['lineEnding']>(['preserve', 'lf', 'crlf']);
 const VALID_DATE_FORMATS = new Set<FormatterOptions['dateFormat']>(['YYYY-MM-DD', 'YYYY/MM/DD', 'YYYY.MM.DD']);
 const VALID_COMMENT_CHARS = new Set<FormatterOptions['commentCharacter']>([';', '#', '*']);
+const VALID_UNDATED_PLACEMENTS = new Set<SortOptions['undatedEntryPlacement']>(['inPlace', 'top']);
 
 function readVersion(): string {
 	try {
@@ -74,6 +142,21 @@ function warn(message: string): void {
 	console.error(`Warning: ${message}`);
 }
 
+function exitIfMeaningChanged(input: string, result: string, file: string | undefined, action: string, options?: Partial<FormatterOptions>): void {
+	const { differences } = verifyJournalEquivalence(input, result, options);
+	if (differences.length === 0) {
+		return;
+	}
+
+	console.error(`Error: ${action} would change the meaning of ${file ?? '<stdin>'}; nothing was written.`);
+	for (const difference of differences) {
+		const location = difference.line !== null ? `line ${difference.line + 1}` : `result line ${(difference.resultLine ?? 0) + 1}`;
+		console.error(`  ${location}: ${difference.message}`);
+	}
+	console.error('Please report this as a bug. Use --no-verify to write the result anyway.');
+	process.exit(1);
+}
+
 function isObjectRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
@@ -118,7 +201,7 @@ function validateConfigShape(raw: unknown, sourcePath: string): FormatConfigShap
 		return null;
 	}
 
-	const allowedFormatKeys = new Set(['alignment', 'column', 'indent', 'negativeStyle', 'dateFormat', 'commentChar']);
+	const allowedFormatKeys = new Set(['alignment', 'column', 'indent', 'indentStyle', 'tabWidth', 'negativeStyle', 'dateFormat', 'commentChar', 'expandShortDates', 'alignAssertions', 'normalizeAmounts', 'commoditySpacing', 'commoditySide', 'commodities', 'commentAlignment', 'commentColumn', 'normalizeComments', 'normalizeTags', 'sortTags', 'tagPlacement', 'normalizeDescriptions', 'payees', 'statusSpacing', 'transactionBlankLines', 'directiveBlankLines', 'maxBlankLines', 'trimTrailingWhitespace', 'finalNewline', 'lineEnding']);
 	for (const key of Object.keys(formatValue)) {
 		if (!allowedFormatKeys.has(key)) {
 			warn(`invalid config at ${sourcePath}; unknown format key "${key}". Ignoring config file.`);
@@ -128,7 +211,7 @@ function validateConfigShape(raw: unknown, sourcePath: string): FormatConfigShap
 
 	const alignment = formatValue.alignment;
 	if (alignment !== undefined && (typeof alignment !== 'string' || !VALID_ALIGNMENTS.has(alignment as FormatterOptions['amountAlignment']))) {
-		warn(`invalid config at ${sourcePath}; format.alignment must be "fixedColumn" or "widest". Ignoring config file.`);
+		warn(`invalid config at ${sourcePath}; format.alignment must be one of fixedColumn, widest, decimal, right. Ignoring config file.`);
 		return null;
 	}
 
@@ -144,6 +227,18 @@ function validateConfigShape(raw: unknown, sourcePath: string): FormatConfigShap
 		return null;
 	}
 
+	const indentStyle = formatValue.indentStyle;
+	if (indentStyle !== undefined && (typeof indentStyle !== 'string' || !VALID_INDENT_STYLES.has(indentStyle as FormatterOptions['indentStyle']))) {
+		warn(`invalid config at ${sourcePath}; format.indentStyle must be one of spaces, tabs. Ignoring config file.`);
+		return null;
+	}
+
+	const tabWidth = formatValue.tabWidth;
+	if (tabWidth !== undefined && !parseInteger(tabWidth)) {
+		warn(`invalid config at ${sourcePath}; format.tabWidth must be a positive integer. Ignoring config file.`);
+		return null;
+	}
+
 	const negativeStyle = formatValue.negativeStyle;
 	if (negativeStyle !== undefined && (typeof negativeStyle !== 'string' || !VALID_NEGATIVE_STYLES.has(negativeStyle as FormatterOptions['negativeCommodityStyle']))) {
 		warn(`invalid config at ${sourcePath}; format.negativeStyle must be "signBeforeSymbol" or "symbolBeforeSign". Ignoring config file.`);
@@ -162,18 +257,222 @@ function validateConfigShape(raw: unknown, sourcePath: string): FormatConfigShap
 		return null;
 	}
 
+	const expandShortDates = formatValue.expandShortDates;
+	if (expandShortDates !== undefined && typeof expandShortDates !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.expandShortDates must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const alignAssertions = formatValue.alignAssertions;
+	if (alignAssertions !== undefined && typeof alignAssertions !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.alignAssertions must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const normalizeAmounts = formatValue.normalizeAmounts;
+	if (normalizeAmounts !== undefined && typeof normalizeAmounts !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.normalizeAmounts must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const commoditySpacing = formatValue.commoditySpacing;
+	if (commoditySpacing !== undefined && (typeof commoditySpacing !== 'string' || !VALID_COMMODITY_SPACINGS.has(commoditySpacing as FormatterOptions['commoditySpacing']))) {
+		warn(`invalid config at ${sourcePath}; format.commoditySpacing must be one of preserve, spaced, unspaced. Ignoring config file.`);
+		return null;
+	}
+
+	const commoditySide = formatValue.commoditySide;
+	if (commoditySide !== undefined && (typeof commoditySide !== 'string' || !VALID_COMMODITY_SIDES.has(commoditySide as FormatterOptions['commoditySide']))) {
+		warn(`invalid config at ${sourcePath}; format.commoditySide must be one of preserve, left, right. Ignoring config file.`);
+		return null;
+	}
+
+	const commodities = formatValue.commodities;
+	if (commodities !== undefined && !isObjectRecord(commodities)) {
+		warn(`invalid config at ${sourcePath}; format.commodities must be an object. Ignoring config file.`);
+		return null;
+	}
+
+	for (const [symbol, layout] of Object.entries(commodities ?? {})) {
+		if (!validateCommodityConfig(layout, `format.commodities["${symbol}"]`, sourcePath)) {
+			return null;
+		}
+	}
+
+	const commentAlignment = formatValue.commentAlignment;
+	if (commentAlignment !== undefined && (typeof commentAlignment !== 'string' || !VALID_COMMENT_ALIGNMENTS.has(commentAlignment as FormatterOptions['commentAlignment']))) {
+		warn(`invalid config at ${sourcePath}; format.commentAlignment must be one of preserve, fixedColumn, widest. Ignoring config file.`);
+		return null;
+	}
+
+	const commentColumn = formatValue.commentColumn;
+	if (commentColumn !== undefined && parseInteger(commentColumn) === null) {
+		warn(`invalid config at ${sourcePath}; format.commentColumn must be a non-negative integer. Ignoring config file.`);
+		return null;
+	}
+
+	const normalizeComments = formatValue.normalizeComments;
+	if (normalizeComments !== undefined && typeof normalizeComments !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.normalizeComments must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const normalizeTags = formatValue.normalizeTags;
+	if (normalizeTags !== undefined && typeof normalizeTags !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.normalizeTags must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const sortTags = formatValue.sortTags;
+	if (sortTags !== undefined && typeof sortTags !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.sortTags must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const tagPlacement = formatValue.tagPlacement;
+	if (tagPlacement !== undefined && (typeof tagPlacement !== 'string' || !VALID_TAG_PLACEMENTS.has(tagPlacement as FormatterOptions['tagPlacement']))) {
+		warn(`invalid config at ${sourcePath}; format.tagPlacement must be one of preserve, inline, separateLine. Ignoring config file.`);
+		return null;
+	}
+
+	const normalizeDescriptions = formatValue.normalizeDescriptions;
+	if (normalizeDescriptions !== undefined && typeof normalizeDescriptions !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.normalizeDescriptions must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const payees = formatValue.payees;
+	if (payees !== undefined && (!isObjectRecord(payees) || !Object.values(payees).every(replacement => typeof replacement === 'string'))) {
+		warn(`invalid config at ${sourcePath}; format.payees must be an object mapping payees to their replacements. Ignoring config file.`);
+		return null;
+	}
+
+	const statusSpacing = formatValue.statusSpacing;
+	if (statusSpacing !== undefined && (typeof statusSpacing !== 'string' || !VALID_STATUS_SPACINGS.has(statusSpacing as FormatterOptions['statusSpacing']))) {
+		warn(`invalid config at ${sourcePath}; format.statusSpacing must be one of preserve, spaced, unspaced. Ignoring config file.`);
+		return null;
+	}
+
+	const transactionBlankLines = formatValue.transactionBlankLines;
+	if (transactionBlankLines !== undefined && parseInteger(transactionBlankLines) === null) {
+		warn(`invalid config at ${sourcePath}; format.transactionBlankLines must be a non-negative integer. Ignoring config file.`);
+		return null;
+	}
+
+	const directiveBlankLines = formatValue.directiveBlankLines;
+	if (directiveBlankLines !== undefined && directiveBlankLines !== null && parseInteger(directiveBlankLines) === null) {
+		warn(`invalid config at ${sourcePath}; format.directiveBlankLines must be a non-negative integer or null. Ignoring config file.`);
+		return null;
+	}
+
+	const maxBlankLines = formatValue.maxBlankLines;
+	if (maxBlankLines !== undefined && maxBlankLines !== null && parseInteger(maxBlankLines) === null) {
+		warn(`invalid config at ${sourcePath}; format.maxBlankLines must be a non-negative integer or null. Ignoring config file.`);
+		return null;
+	}
+
+	const trimTrailingWhitespace = formatValue.trimTrailingWhitespace;
+	if (trimTrailingWhitespace !== undefined && typeof trimTrailingWhitespace !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.trimTrailingWhitespace must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const finalNewline = formatValue.finalNewline;
+	if (finalNewline !== undefined && typeof finalNewline !== 'boolean') {
+		warn(`invalid config at ${sourcePath}; format.finalNewline must be true or false. Ignoring config file.`);
+		return null;
+	}
+
+	const lineEnding = formatValue.lineEnding;
+	if (lineEnding !== undefined && (typeof lineEnding !== 'string' || !VALID_LINE_ENDINGS.has(lineEnding as FormatterOptions['lineEnding']))) {
+		warn(`invalid config at ${sourcePath}; format.lineEnding must be one of preserve, lf, crlf. Ignoring config file.`);
+		return null;
+	}
+
 	return {
 		format: {
 			alignment: alignment as string | undefined,
 			column: parseInteger(column) ?? undefined,
 			indent: parseInteger(indent) ?? undefined,
+			indentStyle: indentStyle as string | undefined,
+			tabWidth: parseInteger(tabWidth) ?? undefined,
 			negativeStyle: negativeStyle as string | undefined,
 			dateFormat: dateFormat as string | undefined,
-			commentChar: commentChar as string | undefined
+			commentChar: commentChar as string | undefined,
+			expandShortDates,
+			alignAssertions,
+			normalizeAmounts,
+			commoditySpacing: commoditySpacing as string | undefined,
+			commoditySide: commoditySide as string | undefined,
+			commodities: commodities as Record<string, CommodityConfigShape> | undefined,
+			commentAlignment: commentAlignment as string | undefined,
+			commentColumn: parseInteger(commentColumn) ?? undefined,
+			normalizeComments,
+			normalizeTags,
+			sortTags,
+			tagPlacement: tagPlacement as string | undefined,
+			normalizeDescriptions,
+			payees: payees as Record<string, string> | undefined,
+			statusSpacing: statusSpacing as string | undefined,
+			transactionBlankLines: parseInteger(transactionBlankLines) ?? undefined,
+			directiveBlankLines: directiveBlankLines === null ? null : parseInteger(directiveBlankLines) ?? undefined,
+			maxBlankLines: maxBlankLines === null ? null : parseInteger(maxBlankLines) ?? undefined,
+			trimTrailingWhitespace,
+			finalNewline,
+			lineEnding: lineEnding as string | undefined
 		}
 	};
 }
 
+function validateCommodityConfig(value: unknown, keyPath: string, sourcePath: string): boolean {
+	if (!isObjectRecord(value)) {
+		warn(`invalid config at ${sourcePath}; ${keyPath} must be an object. Ignoring config file.`);
+		return false;
+	}
+
+	const allowedCommodityKeys = new Set(['negativeStyle', 'spacing', 'side']);
+	for (const key of Object.keys(value)) {
+		if (!allowedCommodityKeys.has(key)) {
+			warn(`invalid config at ${sourcePath}; unknown key "${key}" in ${keyPath}. Ignoring config file.`);
+			return false;
+		}
+	}
+
+	const { negativeStyle, spacing, side } = value;
+	if (negativeStyle !== undefined && (typeof negativeStyle !== 'string' || !VALID_NEGATIVE_STYLES.has(negativeStyle as FormatterOptions['negativeCommodityStyle']))) {
+		warn(`invalid config at ${sourcePath}; ${keyPath}.negativeStyle must be "signBeforeSymbol" or "symbolBeforeSign". Ignoring config file.`);
+		return false;
+	}
+
+	if (spacing !== undefined && (typeof spacing !== 'string' || !VALID_COMMODITY_SPACINGS.has(spacing as FormatterOptions['commoditySpacing']))) {
+		warn(`invalid config at ${sourcePath}; ${keyPath}.spacing must be one of preserve, spaced, unspaced. Ignoring config file.`);
+		return false;
+	}
+
+	if (side !== undefined && (typeof side !== 'string' || !VALID_COMMODITY_SIDES.has(side as FormatterOptions['commoditySide']))) {
+		warn(`invalid config at ${sourcePath}; ${keyPath}.side must be one of preserve, left, right. Ignoring config file.`);
+		return false;
+	}
+
+	return true;
+}
+
+function toCommodityLayouts(commodities: Record<string, CommodityConfigShape> | undefined): Record<string, CommodityLayout> | undefined {
+	if (!commodities) {
+		return undefined;
+	}
+
+	const layouts: Record<string, CommodityLayout> = {};
+	for (const [symbol, config] of Object.entries(commodities)) {
+		layouts[symbol] = {
+			negativeCommodityStyle: config.negativeStyle as CommodityLayout['negativeCommodityStyle'],
+			commoditySpacing: config.spacing as CommodityLayout['commoditySpacing'],
+			commoditySide: config.side as CommodityLayout['commoditySide']
+		};
+	}
+	return layouts;
+}
+
 function loadFormatOptionsFromConfig(configOption: string | undefined): Partial<FormatterOptions> {
 	const resolvedConfigPath = configPathFromOptions(configOption);
 	if (!resolvedConfigPath) {
@@ -203,9 +502,32 @@ function loadFormatOptionsFromConfig(configOption: string | undefined): Partial<
 		amountAlignment: format.alignment as FormatterOptions['amountAlignment'] | undefined,
 		amountColumnPosition: format.column,
 		indentationWidth: format.indent,
+		indentStyle: format.indentStyle as FormatterOptions['indentStyle'] | undefined,
+		tabWidth: format.tabWidth,
 		negativeCommodityStyle: format.negativeStyle as FormatterOptions['negativeCommodityStyle'] | undefined,
 		dateFormat: format.dateFormat as FormatterOptions['dateFormat'] | undefined,
-		commentCharacter: format.commentChar as FormatterOptions['commentCharacter'] | undefined
+		commentCharacter: format.commentChar as FormatterOptions['commentCharacter'] | undefined,
+		expandShortDates: format.expandShortDates,
+		alignBalanceAssertions: format.alignAssertions,
+		normalizeAmounts: format.normalizeAmounts,
+		commoditySpacing: format.commoditySpacing as FormatterOptions['commoditySpacing'] | undefined,
+		commoditySide: format.commoditySide as FormatterOptions['commoditySide'] | undefined,
+		commodityLayouts: toCommodityLayouts(format.commodities),
+		commentAlignment: format.commentAlignment as FormatterOptions['commentAlignment'] | undefined,
+		commentColumnPosition: format.commentColumn,
+		normalizeComments: format.normalizeComments,
+		normalizeTags: format.normalizeTags,
+		sortTags: format.sortTags,
+		tagPlacement: format.tagPlacement as FormatterOptions['tagPlacement'] | undefined,
+		normalizeDescriptions: format.normalizeDescriptions,
+		payeeRewrites: format.payees,
+		statusSpacing: format.statusSpacing as FormatterOptions['statusSpacing'] | undefined,
+		blankLinesBetweenTransactions: format.transactionBlankLines,
+		blankLinesAroundDirectives: format.directiveBlankLines,
+		maxBlankLines: format.maxBlankLines,
+		trimTrailingWhitespace: format.trimTrailingWhitespace,
+		ensureFinalNewline: format.finalNewline,
+		lineEnding: format.lineEnding as FormatterOptions['lineEnding'] | undefined
 	};
 }
 
@@ -222,6 +544,32 @@ function parseIntegerString(value: string | undefined, sourceDescription: string
 	return parseInt(value, 10);
 }
 
+function parsePositiveIntegerString(value: string | undefined, sourceDescription: string): number | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+
+	if (!/^\d+$/.test(value) || parseInt(value, 10) === 0) {
+		warn(`${sourceDescription} must be a positive integer. Ignoring value.`);
+		return undefined;
+	}
+
+	return parseInt(value, 10);
+}
+
+function parseBooleanString(value: string | undefined, sourceDescription: string): boolean | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+
+	if (value !== 'true' && value !== 'false') {
+		warn(`${sourceDescription} must be "true" or "false". Ignoring value.`);
+		return undefined;
+	}
+
+	return value === 'true';
+}
+
 function loadFormatOptionsFromEnv(): Partial<FormatterOptions> {
 	const result: Partial<FormatterOptions> = {};
 
@@ -244,6 +592,20 @@ function loadFormatOptionsFromEnv(): Partial<FormatterOptions> {
 		result.indentationWidth = envIndent;
 	}
 
+	const envIndentStyle = process.env.HLEDGER_FMT_INDENT_STYLE;
+	if (envIndentStyle !== undefined) {
+		if (VALID_INDENT_STYLES.has(envIndentStyle as FormatterOptions['indentStyle'])) {
+			result.indentStyle = envIndentStyle as FormatterOptions['indentStyle'];
+		} else {
+			warn('invalid HLEDGER_FMT_INDENT_STYLE value. Ignoring value.');
+		}
+	}
+
+	const envTabWidth = parsePositiveIntegerString(process.env.HLEDGER_FMT_TAB_WIDTH, 'HLEDGER_FMT_TAB_WIDTH');
+	if (envTabWidth !== undefined) {
+		result.tabWidth = envTabWidth;
+	}
+
 	const envNegativeStyle = process.env.HLEDGER_FMT_NEGATIVE_STYLE;
 	if (envNegativeStyle !== undefined) {
 		if (VALID_NEGATIVE_STYLES.has(envNegativeStyle as FormatterOptions['negativeCommodityStyle'])) {
@@ -271,6 +633,125 @@ function loadFormatOptionsFromEnv(): Partial<FormatterOptions> {
 		}
 	}
 
+	const envExpandShortDates = parseBooleanString(process.env.HLEDGER_FMT_EXPAND_SHORT_DATES, 'HLEDGER_FMT_EXPAND_SHORT_DATES');
+	if (envExpandShortDates !== undefined) {
+		result.expandShortDates = envExpandShortDates;
+	}
+
+	const envAlignAssertions = parseBooleanString(process.env.HLEDGER_FMT_ALIGN_ASSERTIONS, 'HLEDGER_FMT_ALIGN_ASSERTIONS');
+	if (envAlignAssertions !== undefined) {
+		result.alignBalanceAssertions = envAlignAssertions;
+	}
+
+	const envNormalizeAmounts = parseBooleanString(process.env.HLEDGER_FMT_NORMALIZE_AMOUNTS, 'HLEDGER_FMT_NORMALIZE_AMOUNTS');
+	if (envNormalizeAmounts !== undefined) {
+		result.normalizeAmounts = envNormalizeAmounts;
+	}
+
+	const envCommoditySpacing = process.env.HLEDGER_FMT_COMMODITY_SPACING;
+	if (envCommoditySpacing !== undefined) {
+		if (VALID_COMMODITY_SPACINGS.has(envCommoditySpacing as FormatterOptions['commoditySpacing'])) {
+			result.commoditySpacing = envCommoditySpacing as FormatterOptions['commoditySpacing'];
+		} else {
+			warn('invalid HLEDGER_FMT_COMMODITY_SPACING value. Ignoring value.');
+		}
+	}
+
+	const envCommoditySide = process.env.HLEDGER_FMT_COMMODITY_SIDE;
+	if (envCommoditySide !== undefined) {
+		if (VALID_COMMODITY_SIDES.has(envCommoditySide as FormatterOptions['commoditySide'])) {
+			result.commoditySide = envCommoditySide as FormatterOptions['commoditySide'];
+		} else {
+			warn('invalid HLEDGER_FMT_COMMODITY_SIDE value. Ignoring value.');
+		}
+	}
+
+	const envCommentAlignment = process.env.HLEDGER_FMT_COMMENT_ALIGNMENT;
+	if (envCommentAlignment !== undefined) {
+		if (VALID_COMMENT_ALIGNMENTS.has(envCommentAlignment as FormatterOptions['commentAlignment'])) {
+			result.commentAlignment = envCommentAlignment as FormatterOptions['commentAlignment'];
+		} else {
+			warn('invalid HLEDGER_FMT_COMMENT_ALIGNMENT value. Ignoring value.');
+		}
+	}
+
+	const envCommentColumn = parseIntegerString(process.env.HLEDGER_FMT_COMMENT_COLUMN, 'HLEDGER_FMT_COMMENT_COLUMN');
+	if (envCommentColumn !== undefined) {
+		result.commentColumnPosition = envCommentColumn;
+	}
+
+	const envNormalizeComments = parseBooleanString(process.env.HLEDGER_FMT_NORMALIZE_COMMENTS, 'HLEDGER_FMT_NORMALIZE_COMMENTS');
+	if (envNormalizeComments !== undefined) {
+		result.normalizeComments = envNormalizeComments;
+	}
+
+	const envNormalizeTags = parseBooleanString(process.env.HLEDGER_FMT_NORMALIZE_TAGS, 'HLEDGER_FMT_NORMALIZE_TAGS');
+	if (envNormalizeTags !== undefined) {
+		result.normalizeTags = envNormalizeTags;
+	}
+
+	const envSortTags = parseBooleanString(process.env.HLEDGER_FMT_SORT_TAGS, 'HLEDGER_FMT_SORT_TAGS');
+	if (envSortTags !== undefined) {
+		result.sortTags = envSortTags;
+	}
+
+	const envTagPlacement = process.env.HLEDGER_FMT_TAG_PLACEMENT;
+	if (envTagPlacement !== undefined) {
+		if (VALID_TAG_PLACEMENTS.has(envTagPlacement as FormatterOptions['tagPlacement'])) {
+			result.tagPlacement = envTagPlacement as FormatterOptions['tagPlacement'];
+		} else {
+			warn('invalid HLEDGER_FMT_TAG_PLACEMENT value. Ignoring value.');
+		}
+	}
+
+	const envNormalizeDescriptions = parseBooleanString(process.env.HLEDGER_FMT_NORMALIZE_DESCRIPTIONS, 'HLEDGER_FMT_NORMALIZE_DESCRIPTIONS');
+	if (envNormalizeDescriptions !== undefined) {
+		result.normalizeDescriptions = envNormalizeDescriptions;
+	}
+
+	const envStatusSpacing = process.env.HLEDGER_FMT_STATUS_SPACING;
+	if (envStatusSpacing !== undefined) {
+		if (VALID_STATUS_SPACINGS.has(envStatusSpacing as FormatterOptions['statusSpacing'])) {
+			result.statusSpacing = envStatusSpacing as FormatterOptions['statusSpacing'];
+		} else {
+			warn('invalid HLEDGER_FMT_STATUS_SPACING value. Ignoring value.');
+		}
+	}
+
+	const envTransactionBlankLines = parseIntegerString(process.env.HLEDGER_FMT_TRANSACTION_BLANK_LINES, 'HLEDGER_FMT_TRANSACTION_BLANK_LINES');
+	if (envTransactionBlankLines !== undefined) {
+		result.blankLinesBetweenTransactions = envTransactionBlankLines;
+	}
+
+	const envDirectiveBlankLines = parseIntegerString(process.env.HLEDGER_FMT_DIRECTIVE_BLANK_LINES, 'HLEDGER_FMT_DIRECTIVE_BLANK_LINES');
+	if (envDirectiveBlankLines !== undefined) {
+		result.blankLinesAroundDirectives = envDirectiveBlankLines;
+	}
+
+	const envMaxBlankLines = parseIntegerString(process.env.HLEDGER_FMT_MAX_BLANK_LINES, 'HLEDGER_FMT_MAX_BLANK_LINES');
+	if (envMaxBlankLines !== undefined) {
+		result.maxBlankLines = envMaxBlankLines;
+	}
+
+	const envTrimTrailingWhitespace = parseBooleanString(process.env.HLEDGER_FMT_TRIM_TRAILING_WHITESPACE, 'HLEDGER_FMT_TRIM_TRAILING_WHITESPACE');
+	if (envTrimTrailingWhitespace !== undefined) {
+		result.trimTrailingWhitespace = envTrimTrailingWhitespace;
+	}
+
+	const envFinalNewline = parseBooleanString(process.env.HLEDGER_FMT_FINAL_NEWLINE, 'HLEDGER_FMT_FINAL_NEWLINE');
+	if (envFinalNewline !== undefined) {
+		result.ensureFinalNewline = envFinalNewline;
+	}
+
+	const envLineEnding = process.env.HLEDGER_FMT_LINE_ENDING;
+	if (envLineEnding !== undefined) {
+		if (VALID_LINE_ENDINGS.has(envLineEnding as FormatterOptions['lineEnding'])) {
+			result.lineEnding = envLineEnding as FormatterOptions['lineEnding'];
+		} else {
+			warn('invalid HLEDGER_FMT_LINE_ENDING value. Ignoring value.');
+		}
+	}
+
 	return result;
 }
 
@@ -295,6 +776,19 @@ function loadFormatOptionsFromCli(opts: FormatCommandOptions): Partial<Formatter
 		result.indentationWidth = cliIndent;
 	}
 
+	if (opts.indentStyle !== undefined) {
+		if (VALID_INDENT_STYLES.has(opts.indentStyle as FormatterOptions['indentStyle'])) {
+			result.indentStyle = opts.indentStyle as FormatterOptions['indentStyle'];
+		} else {
+			warn('invalid --indent-style value. Ignoring value.');
+		}
+	}
+
+	const cliTabWidth = parsePositiveIntegerString(opts.tabWidth, '--tab-width');
+	if (cliTabWidth !== undefined) {
+		result.tabWidth = cliTabWidth;
+	}
+
 	if (opts.negativeStyle !== undefined) {
 		if (VALID_NEGATIVE_STYLES.has(opts.negativeStyle as FormatterOptions['negativeCommodityStyle'])) {
 			result.negativeCommodityStyle = opts.negativeStyle as FormatterOptions['negativeCommodityStyle'];
@@ -319,6 +813,110 @@ function loadFormatOptionsFromCli(opts: FormatCommandOptions): Partial<Formatter
 		}
 	}
 
+	if (opts.expandShortDates) {
+		result.expandShortDates = true;
+	}
+
+	if (opts.alignAssertions) {
+		result.alignBalanceAssertions = true;
+	}
+
+	if (opts.normalizeAmounts) {
+		result.normalizeAmounts = true;
+	}
+
+	if (opts.commoditySpacing !== undefined) {
+		if (VALID_COMMODITY_SPACINGS.has(opts.commoditySpacing as FormatterOptions['commoditySpacing'])) {
+			result.commoditySpacing = opts.commoditySpacing as FormatterOptions['commoditySpacing'];
+		} else {
+			warn('invalid --commodity-spacing value. Ignoring value.');
+		}
+	}
+
+	if (opts.commoditySide !== undefined) {
+		if (VALID_COMMODITY_SIDES.has(opts.commoditySide as FormatterOptions['commoditySide'])) {
+			result.commoditySide = opts.commoditySide as FormatterOptions['commoditySide'];
+		} else {
+			warn('invalid --commodity-side value. Ignoring value.');
+		}
+	}
+
+	if (opts.commentAlignment !== undefined) {
+		if (VALID_COMMENT_ALIGNMENTS.has(opts.commentAlignment as FormatterOptions['commentAlignment'])) {
+			result.commentAlignment = opts.commentAlignment as FormatterOptions['commentAlignment'];
+		} else {
+			warn('invalid --comment-alignment value. Ignoring value.');
+		}
+	}
+
+	const cliCommentColumn = parseIntegerString(opts.commentColumn, '--comment-column');
+	if (cliCommentColumn !== undefined) {
+		result.commentColumnPosition = cliCommentColumn;
+	}
+
+	if (opts.normalizeComments) {
+		result.normalizeComments = true;
+	}
+
+	if (opts.normalizeTags) {
+		result.normalizeTags = true;
+	}
+
+	if (opts.sortTags) {
+		result.sortTags = true;
+	}
+
+	if (opts.tagPlacement !== undefined) {
+		if (VALID_TAG_PLACEMENTS.has(opts.tagPlacement as FormatterOptions['tagPlacement'])) {
+			result.tagPlacement = opts.tagPlacement as FormatterOptions['tagPlacement'];
+		} else {
+			warn('invalid --tag-placement value. Ignoring value.');
+		}
+	}
+
+	if (opts.normalizeDescriptions) {
+		result.normalizeDescriptions = true;
+	}
+
+	if (opts.statusSpacing !== undefined) {
+		if (VALID_STATUS_SPACINGS.has(opts.statusSpacing as FormatterOptions['statusSpacing'])) {
+			result.statusSpacing = opts.statusSpacing as FormatterOptions['statusSpacing'];
+		} else {
+			warn('invalid --status-spacing value. Ignoring value.');
+		}
+	}
+
+	const cliTransactionBlankLines = parseIntegerString(opts.transactionBlankLines, '--transaction-blank-lines');
+	if (cliTransactionBlankLines !== undefined) {
+		result.blankLinesBetweenTransactions = cliTransactionBlankLines;
+	}
+
+	const cliDirectiveBlankLines = parseIntegerString(opts.directiveBlankLines, '--directive-blank-lines');
+	if (cliDirectiveBlankLines !== undefined) {
+		result.blankLinesAroundDirectives = cliDirectiveBlankLines;
+	}
+
+	const cliMaxBlankLines = parseIntegerString(opts.maxBlankLines, '--max-blank-lines');
+	if (cliMaxBlankLines !== undefined) {
+		result.maxBlankLines = cliMaxBlankLines;
+	}
+
+	if (opts.trimTrailingWhitespace) {
+		result.trimTrailingWhitespace = true;
+	}
+
+	if (opts.finalNewline) {
+		result.ensureFinalNewline = true;
+	}
+
+	if (opts.lineEnding !== undefined) {
+		if (VALID_LINE_ENDINGS.has(opts.lineEnding as FormatterOptions['lineEnding'])) {
+			result.lineEnding = opts.lineEnding as FormatterOptions['lineEnding'];
+		} else {
+			warn('invalid --line-ending value. Ignoring value.');
+		}
+	}
+
 	return result;
 }
 
@@ -331,24 +929,84 @@ function resolveFormatterOptions(opts: FormatCommandOptions): Partial<FormatterO
 		amountAlignment: DEFAULT_FORMATTER_OPTIONS.amountAlignment,
 		amountColumnPosition: DEFAULT_FORMATTER_OPTIONS.amountColumnPosition,
 		indentationWidth: DEFAULT_FORMATTER_OPTIONS.indentationWidth,
+		indentStyle: DEFAULT_FORMATTER_OPTIONS.indentStyle,
+		tabWidth: DEFAULT_FORMATTER_OPTIONS.tabWidth,
 		negativeCommodityStyle: DEFAULT_FORMATTER_OPTIONS.negativeCommodityStyle,
 		dateFormat: DEFAULT_FORMATTER_OPTIONS.dateFormat,
 		commentCharacter: DEFAULT_FORMATTER_OPTIONS.commentCharacter,
+		expandShortDates: DEFAULT_FORMATTER_OPTIONS.expandShortDates,
+		alignBalanceAssertions: DEFAULT_FORMATTER_OPTIONS.alignBalanceAssertions,
+		normalizeAmounts: DEFAULT_FORMATTER_OPTIONS.normalizeAmounts,
+		commoditySpacing: DEFAULT_FORMATTER_OPTIONS.commoditySpacing,
+		commoditySide: DEFAULT_FORMATTER_OPTIONS.commoditySide,
+		commodityLayouts: DEFAULT_FORMATTER_OPTIONS.commodityLayouts,
+		commentAlignment: DEFAULT_FORMATTER_OPTIONS.commentAlignment,
+		commentColumnPosition: DEFAULT_FORMATTER_OPTIONS.commentColumnPosition,
+		normalizeComments: DEFAULT_FORMATTER_OPTIONS.normalizeComments,
+		normalizeTags: DEFAULT_FORMATTER_OPTIONS.normalizeTags,
+		sortTags: DEFAULT_FORMATTER_OPTIONS.sortTags,
+		tagPlacement: DEFAULT_FORMATTER_OPTIONS.tagPlacement,
+		normalizeDescriptions: DEFAULT_FORMATTER_OPTIONS.normalizeDescriptions,
+		payeeRewrites: DEFAULT_FORMATTER_OPTIONS.payeeRewrites,
+		statusSpacing: DEFAULT_FORMATTER_OPTIONS.statusSpacing,
+		blankLinesBetweenTransactions: DEFAULT_FORMATTER_OPTIONS.blankLinesBetweenTransactions,
+		blankLinesAroundDirectives: DEFAULT_FORMATTER_OPTIONS.blankLinesAroundDirectives,
+		maxBlankLines: DEFAULT_FORMATTER_OPTIONS.maxBlankLines,
+		trimTrailingWhitespace: DEFAULT_FORMATTER_OPTIONS.trimTrailingWhitespace,
+		ensureFinalNewline: DEFAULT_FORMATTER_OPTIONS.ensureFinalNewline,
+		lineEnding: DEFAULT_FORMATTER_OPTIONS.lineEnding,
 		...configOptions,
 		...envOptions,
 		...cliOptions
 	};
 }
 
+function loadSortOptionsFromCli(opts: SortCommandOptions): Partial<SortOptions> {
+	const result: Partial<SortOptions> = {};
+
+	if (opts.undatedPlacement !== undefined) {
+		if (VALID_UNDATED_PLACEMENTS.has(opts.undatedPlacement as SortOptions['undatedEntryPlacement'])) {
+			result.undatedEntryPlacement = opts.undatedPlacement as SortOptions['undatedEntryPlacement'];
+		} else {
+			warn('invalid --undated-placement value. Ignoring value.');
+		}
+	}
+
+	return result;
+}
+
 function getDefaultConfigContents(): string {
 	return `${JSON.stringify({
 		format: {
 			alignment: DEFAULT_FORMATTER_OPTIONS.amountAlignment,
 			column: DEFAULT_FORMATTER_OPTIONS.amountColumnPosition,
 			indent: DEFAULT_FORMATTER_OPTIONS.indentationWidth,
+			indentStyle: DEFAULT_FORMATTER_OPTIONS.indentStyle,
+			tabWidth: DEFAULT_FORMATTER_OPTIONS.tabWidth,
 			negativeStyle: DEFAULT_FORMATTER_OPTIONS.negativeCommodityStyle,
 			dateFormat: DEFAULT_FORMATTER_OPTIONS.dateFormat,
-			commentChar: DEFAULT_FORMATTER_OPTIONS.commentCharacter
+			commentChar: DEFAULT_FORMATTER_OPTIONS.commentCharacter,
+			expandShortDates: DEFAULT_FORMATTER_OPTIONS.expandShortDates,
+			alignAssertions: DEFAULT_FORMATTER_OPTIONS.alignBalanceAssertions,
+			normalizeAmounts: DEFAULT_FORMATTER_OPTIONS.normalizeAmounts,
+			commoditySpacing: DEFAULT_FORMATTER_OPTIONS.commoditySpacing,
+			commoditySide: DEFAULT_FORMATTER_OPTIONS.commoditySide,
+			commodities: DEFAULT_FORMATTER_OPTIONS.commodityLayouts,
+			commentAlignment: DEFAULT_FORMATTER_OPTIONS.commentAlignment,
+			commentColumn: DEFAULT_FORMATTER_OPTIONS.commentColumnPosition,
+			normalizeComments: DEFAULT_FORMATTER_OPTIONS.normalizeComments,
+			normalizeTags: DEFAULT_FORMATTER_OPTIONS.normalizeTags,
+			sortTags: DEFAULT_FORMATTER_OPTIONS.sortTags,
+			tagPlacement: DEFAULT_FORMATTER_OPTIONS.tagPlacement,
+			normalizeDescriptions: DEFAULT_FORMATTER_OPTIONS.normalizeDescriptions,
+			payees: DEFAULT_FORMATTER_OPTIONS.payeeRewrites,
+			statusSpacing: DEFAULT_FORMATTER_OPTIONS.statusSpacing,
+			transactionBlankLines: DEFAULT_FORMATTER_OPTIONS.blankLinesBetweenTransactions,
+			directiveBlankLines: DEFAULT_FORMATTER_OPTIONS.blankLinesAroundDirectives,
+			maxBlankLines: DEFAULT_FORMATTER_OPTIONS.maxBlankLines,
+			trimTrailingWhitespace: DEFAULT_FORMATTER_OPTIONS.trimTrailingWhitespace,
+			finalNewline: DEFAULT_FORMATTER_OPTIONS.ensureFinalNewline,
+			lineEnding: DEFAULT_FORMATTER_OPTIONS.lineEnding
 		}
 	}, null, 2)}\n`;
 }
@@ -365,13 +1023,35 @@ const formatCommand = program
 	.description('Format a journal file')
 	.argument('[file]', 'journal file to format (reads stdin if omitted)')
 	.option('--config <path>', 'path to JSON config file (defaults to .hledger-fmt.json in current directory)')
-	.option('--alignment <mode>', 'amount alignment mode (fixedColumn or widest)')
+	.option('--alignment <mode>', 'amount alignment mode (fixedColumn, widest, decimal or right)')
 	.option('--column <n>', 'column position for fixed alignment')
 	.option('--indent <width>', 'indentation width')
+	.option('--indent-style <style>', 'indent with spaces or tabs')
+	.option('--tab-width <n>', 'columns between tab stops when lining up lines that contain tabs (default 4)')
 	.option('--negative-style <style>', 'negative amount style (signBeforeSymbol or symbolBeforeSign)')
 	.option('--date-format <fmt>', 'date format (YYYY-MM-DD, YYYY/MM/DD, or YYYY.MM.DD)')
 	.option('--comment-char <char>', 'comment character (; # or *)')
+	.option('--expand-short-dates', 'rewrite year-less dates (1/5) as full dates')
+	.option('--align-assertions', 'align balance assertions (= $500) in a second column')
+	.option('--normalize-amounts', 'rewrite amounts in the style of their commodity directive or first use')
+	.option('--commodity-spacing <mode>', 'space between commodity symbol and quantity (preserve, spaced or unspaced)')
+	.option('--commodity-side <side>', 'side of the quantity the commodity symbol goes on (preserve, left or right)')
+	.option('--comment-alignment <mode>', 'trailing comment alignment (preserve, fixedColumn or widest)')
+	.option('--comment-column <n>', 'column position for fixed comment alignment')
+	.option('--normalize-comments', 'rewrite comment markers to --comment-char (; inside transactions) with one space after them')
+	.option('--normalize-tags', 'rewrite comment tags as name:value separated by commas, without repeated tags')
+	.option('--sort-tags', 'sort tags by name (with --normalize-tags)')
+	.option('--tag-placement <mode>', 'where normalized tags go (preserve, inline or separateLine)')
+	.option('--normalize-descriptions', 'collapse whitespace in transaction descriptions and write payee | note with single spaces')
+	.option('--status-spacing <mode>', 'space after the * or ! status marker (preserve, spaced or unspaced)')
+	.option('--transaction-blank-lines <n>', 'blank lines after each transaction (default 1)')
+	.option('--directive-blank-lines <n>', 'blank lines between directives and the entries around them (kept as written if omitted)')
+	.option('--max-blank-lines <n>', 'most blank lines kept in a row (no limit if omitted)')
+	.option('--trim-trailing-whitespace', 'strip trailing whitespace from every line')
+	.option('--final-newline', 'end the output with exactly one newline')
+	.option('--line-ending <mode>', 'line endings of the output (preserve, lf or crlf)')
 	.option('-i, --in-place', 'modify file in place (requires file argument)')
+	.option('--no-verify', 'write the result without checking that it means the same as the input')
 	.action((file: string | undefined, opts: FormatCommandOptions) => {
 		if (opts.inPlace && !file) {
 			console.error('Error: --in-place requires a file argument.');
@@ -380,7 +1060,13 @@ const formatCommand = program
 
 		const input = readInput(file);
 		const options = resolveFormatterOptions(opts);
-		const result = formatHledgerJournal(input, options);
+		const { text: result, warnings } = formatHledgerJournalWithReport(input, options);
+		for (const warning of warnings) {
+			warn(`${file ?? '<stdin>'}:${warning.line + 1}:${warning.column + 1}: ${warning.message} [${warning.code}]`);
+		}
+		if (opts.verify !== false) {
+			exitIfMeaningChanged(input, result, file, 'formatting', options);
+		}
 		writeOutput(result, file, !!opts.inPlace);
 	});
 
@@ -389,8 +1075,20 @@ Config:
   Reads config from --config <path> or .hledger-fmt.json in the current directory.
   Precedence: CLI flags > env vars > config file > built-in defaults.
   Env vars: HLEDGER_FMT_ALIGNMENT, HLEDGER_FMT_COLUMN, HLEDGER_FMT_INDENT,
+            HLEDGER_FMT_INDENT_STYLE, HLEDGER_FMT_TAB_WIDTH,
             HLEDGER_FMT_NEGATIVE_STYLE, HLEDGER_FMT_DATE_FORMAT,
-            HLEDGER_FMT_COMMENT_CHAR
+            HLEDGER_FMT_COMMENT_CHAR, HLEDGER_FMT_EXPAND_SHORT_DATES,
+            HLEDGER_FMT_ALIGN_ASSERTIONS, HLEDGER_FMT_NORMALIZE_AMOUNTS,
+            HLEDGER_FMT_COMMODITY_SPACING, HLEDGER_FMT_COMMODITY_SIDE,
+            HLEDGER_FMT_COMMENT_ALIGNMENT, HLEDGER_FMT_COMMENT_COLUMN,
+            HLEDGER_FMT_NORMALIZE_COMMENTS, HLEDGER_FMT_NORMALIZE_TAGS,
+            HLEDGER_FMT_SORT_TAGS, HLEDGER_FMT_TAG_PLACEMENT,
+            HLEDGER_FMT_NORMALIZE_DESCRIPTIONS, HLEDGER_FMT_STATUS_SPACING,
+            HLEDGER_FMT_TRANSACTION_BLANK_LINES, HLEDGER_FMT_DIRECTIVE_BLANK_LINES,
+            HLEDGER_FMT_MAX_BLANK_LINES, HLEDGER_FMT_TRIM_TRAILING_WHITESPACE,
+            HLEDGER_FMT_FINAL_NEWLINE, HLEDGER_FMT_LINE_ENDING
+  Per-commodity layouts (format.commodities) and payee rewrites (format.payees)
+  can only be set in the config file.
 `);
 
 const initCommand = program
@@ -413,27 +1111,55 @@ const initCommand = program
 
 initCommand.addHelpText('after', `
 Allowed values (.hledger-fmt.json):
-  format.alignment: fixedColumn | widest
+  format.alignment: fixedColumn | widest | decimal | right
   format.column: non-negative integer
   format.indent: non-negative integer
+  format.indentStyle: spaces | tabs
+  format.tabWidth: positive integer
   format.negativeStyle: signBeforeSymbol | symbolBeforeSign
   format.dateFormat: YYYY-MM-DD | YYYY/MM/DD | YYYY.MM.DD
   format.commentChar: ; | # | *
+  format.expandShortDates: true | false
+  format.alignAssertions: true | false
+  format.normalizeAmounts: true | false
+  format.commoditySpacing: preserve | spaced | unspaced
+  format.commoditySide: preserve | left | right
+  format.commodities: { "<symbol>": { negativeStyle?, spacing?, side? } }
+  format.commentAlignment: preserve | fixedColumn | widest
+  format.commentColumn: non-negative integer
+  format.normalizeComments: true | false
+  format.normalizeTags: true | false
+  format.sortTags: true | false
+  format.tagPlacement: preserve | inline | separateLine
+  format.normalizeDescriptions: true | false
+  format.payees: { "<payee as written>": "<replacement>" }
+  format.statusSpacing: preserve | spaced | unspaced
+  format.transactionBlankLines: non-negative integer
+  format.directiveBlankLines: non-negative integer | null
+  format.maxBlankLines: non-negative integer | null
+  format.trimTrailingWhitespace: true | false
+  format.finalNewline: true | false
+  format.lineEnding: preserve | lf | crlf
 `);
 
 program
 	.command('sort')
 	.description('Sort journal entries by date')
 	.argument('[file]', 'journal file to sort (reads stdin if omitted)')
+	.option('--undated-placement <mode>', 'placement of periodic and auto posting entries (inPlace or top)')
 	.option('-i, --in-place', 'modify file in place (requires file argument)')
-	.action((file: string | undefined, opts: Record<string, string | boolean | undefined>) => {
+	.option('--no-verify', 'write the result without checking that it means the same as the input')
+	.action((file: string | undefined, opts: SortCommandOptions) => {
 		if (opts.inPlace && !file) {
 			console.error('Error: --in-place requires a file argument.');
 			process.exit(1);
 		}
 
 		const input = readInput(file);
-		const result = sortHledgerJournal(input);
+		const result = sortHledgerJournal(input, loadSortOptionsFromCli(opts));
+		if (opts.verify !== false) {
+			exitIfMeaningChanged(input, result, file, 'sorting');
+		}
 		writeOutput(result, file, !!opts.inPlace);
 	});
 
@@ -88,6 +88,129 @@ describe('CLI', () => {
 			});
 		});
 
+		it('expands short dates with --expand-short-dates', async () => {
+			const input = 'Y 2024\n\n1/5 Short date\n  expenses:food    $10.00\n  assets:cash\n';
+			const { stdout: kept } = await runWithStdin([CLI, 'format'], input);
+			expect(kept).toContain('01-05 Short date');
+
+			const { stdout: expanded } = await runWithStdin([CLI, 'format', '--expand-short-dates'], input);
+			expect(expanded).toContain('2024-01-05 Short date');
+		});
+
+		it('aligns balance assertions with --align-assertions', async () => {
+			const input = '2025-03-01 Reconcile\n  assets:checking    $10.00 = $500.00\n  assets:savings    $-1,000.00 = $0.00\n  equity\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--align-assertions'], input);
+			const lines = stdout.split('\n');
+			expect(lines[1].indexOf('=')).toBe(lines[2].indexOf('='));
+		});
+
+		it('lines up decimal marks with --alignment decimal', async () => {
+			const input = '2025-03-01 Rent\n  expenses:rent    $1,250.00\n  expenses:fees    $5.5\n  assets:checking\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--alignment', 'decimal'], input);
+			const lines = stdout.split('\n');
+			expect(lines[1].indexOf('.')).toBe(lines[2].indexOf('.'));
+		});
+
+		it('rewrites amounts in their commodity style with --normalize-amounts', async () => {
+			const input = 'commodity 1.000,00 EUR\n\n2025-03-01 Rent\n  expenses:rent    EUR 1250\n  assets:checking\n';
+			const { stdout: kept } = await runWithStdin([CLI, 'format'], input);
+			expect(kept).toContain('EUR 1250');
+			const { stdout } = await runWithStdin([CLI, 'format', '--normalize-amounts'], input);
+			expect(stdout).toMatch(/expenses:rent +1\.250,00 EUR/);
+		});
+
+		it('aligns trailing comments with --comment-alignment fixedColumn', async () => {
+			const input = '2025-03-01 Lunch ; header\n  expenses:food    $12 ; lunch\n  assets:cash\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--comment-alignment', 'fixedColumn', '--comment-column', '32'], input);
+			const lines = stdout.split('\n');
+			expect(lines[0].indexOf(';')).toBe(32);
+			expect(lines[1].indexOf(';')).toBe(32);
+		});
+
+		it('rewrites comment markers with --normalize-comments', async () => {
+			const input = '#note\n\n2025-03-01 Lunch\n  #   posting note\n  expenses:food    $12\n  assets:cash\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--normalize-comments', '--comment-char', '*'], input);
+			const lines = stdout.split('\n');
+			expect(lines[0]).toBe('* note');
+			expect(lines[3]).toBe('    ; posting note');
+		});
+
+		it('leaves pragma regions as written', async () => {
+			const { stdout } = await exec('node', [CLI, 'format', fixture('pragmas_in.journal')]);
+			expect(normalize(stdout)).toBe(normalize(readFixture('pragmas_out.journal')));
+		});
+
+		it('indents with tabs with --indent-style tabs', async () => {
+			const input = '2025-03-01 Lunch\n\texpenses:food\t$12\n\tassets:cash\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--indent-style', 'tabs', '--tab-width', '8'], input);
+			expect(stdout).toBe('2025-03-01 Lunch\n\texpenses:food  $12\n\tassets:cash\n');
+		});
+
+		it('ignores a tab width of 0 from flags and env vars, like the config file', async () => {
+			const cli = await runWithStdin([CLI, 'format', '--tab-width', '0'], '2025-03-01 Lunch\n  assets:cash\n');
+			expect(cli.stderr).toContain('--tab-width must be a positive integer. Ignoring value.');
+
+			const env = await exec('node', [CLI, 'format', fixture('test_1_in.journal')], {
+				env: { ...process.env, HLEDGER_FMT_TAB_WIDTH: '0' }
+			});
+			expect(env.stderr).toContain('HLEDGER_FMT_TAB_WIDTH must be a positive integer. Ignoring value.');
+		});
+
+		it('normalizes and moves tags with --normalize-tags --tag-placement separateLine', async () => {
+			const input = '2025-03-01 Lunch\n  expenses:food    $12  ; receipt:r1.pdf,project:house , project:house\n  assets:cash\n';
+			const { stdout } = await runWithStdin([CLI, 'format', '--normalize-tags', '--sort-tags', '--tag-placement', 'separateLine'], input);
+			const lines = stdout.split('\n');
+			expect(lines[1]).toBe('    expenses:food  $12');
+			expect(lines[2]).toBe('    ; project:house, receipt:r1.pdf');
+		});
+
+		it('applies blank-line and end-of-file options', async () => {
+			const input = 'account assets:cash   \n2025-03-01 Lunch\n  expenses:food    $12\n  assets:cash\n2025-03-02 Dinner\n  expenses:food    $20\n  assets:cash\n\n\n\n; end   ';
+			const { stdout } = await runWithStdin([CLI, 'format', '--transaction-blank-lines', '2', '--directive-blank-lines', '1', '--max-blank-lines', '1', '--trim-trailing-whitespace', '--final-newline'], input);
+			expect(stdout).toBe('account assets:cash\n\n2025-03-01 Lunch\n    expenses:food  $12\n    assets:cash\n\n2025-03-02 Dinner\n    expenses:food  $20\n    assets:cash\n\n; end\n');
+		});
+
+		it('keeps CRLF line endings and a byte order mark in place, or converts them with --line-ending', async () => {
+			const tmp = path.join(os.tmpdir(), `hledger-fmt-crlf-${Date.now()}.journal`);
+			try {
+				fs.writeFileSync(tmp, '\uFEFF2025-03-01 Lunch\r\n  expenses:food    $12\r\n  assets:cash\r\n', 'utf8');
+				await exec('node', [CLI, 'format', '-i', tmp]);
+				expect(fs.readFileSync(tmp, 'utf8')).toBe('\uFEFF2025-03-01 Lunch\r\n    expenses:food  $12\r\n    assets:cash\r\n');
+
+				const { stdout } = await exec('node', [CLI, 'format', '--line-ending', 'lf', tmp]);
+				expect(stdout).toBe('\uFEFF2025-03-01 Lunch\n    expenses:food  $12\n    assets:cash\n');
+			} finally {
+				fs.unlinkSync(tmp);
+			}
+		});
+
+		it('reports lines it had to guess at on stderr', async () => {
+			const input = '2025-02-30 Lunch\n  expenses:food $12\n  assets:cash\n';
+			const { stdout, stderr, code } = await runWithStdin([CLI, 'format', '--no-verify'], input);
+			expect(code).toBe(0);
+			expect(stdout).toBe('2025-02-30 Lunch\n    expenses:food  $12\n    assets:cash\n');
+			expect(stderr).toContain('<stdin>:1:1: Invalid date "2025-02-30" [invalid-date]');
+			expect(stderr).toContain('<stdin>:2:17: Only one space before the amount "$12"');
+			expect(stderr).toContain('[guessed-separator]');
+
+			// hledger reads the amount as part of the account, so separating them is refused unless --no-verify is given
+			const verified = await runWithStdin([CLI, 'format'], input);
+			expect(verified.code).toBe(1);
+			expect(verified.stdout).toBe('');
+			expect(verified.stderr).toContain('account of posting 1 changed from "expenses:food $12" to "expenses:food"');
+		});
+
+		it('checks the result keeps the meaning of the input, unless --no-verify is given', async () => {
+			const input = readFixture('test_1_in.journal');
+			const verified = await runWithStdin([CLI, 'format', '--normalize-tags', '--normalize-comments'], input);
+			expect(verified.code).toBe(0);
+			expect(verified.stderr).toBe('');
+
+			const unverified = await runWithStdin([CLI, 'format', '--normalize-tags', '--normalize-comments', '--no-verify'], input);
+			expect(unverified.code).toBe(0);
+			expect(unverified.stdout).toBe(verified.stdout);
+		});
+
 		it('loads formatter options from config file', async () => {
 			const cfg = path.join(os.tmpdir(), `hledger-fmt-config-${Date.now()}.json`);
 			try {
@@ -106,6 +229,45 @@ describe('CLI', () => {
 			}
 		});
 
+		it('applies per-commodity layouts from the config file', async () => {
+			const cfg = path.join(os.tmpdir(), `hledger-fmt-commodities-${Date.now()}.json`);
+			try {
+				fs.writeFileSync(cfg, JSON.stringify({
+					format: {
+						commoditySide: 'right',
+						commodities: {
+							CHF: { negativeStyle: 'signBeforeSymbol', spacing: 'unspaced', side: 'left' }
+						}
+					}
+				}), 'utf8');
+
+				const input = '2025-03-01 Fees\n  expenses:fees    CHF -10\n  expenses:travel    EUR5\n  assets:cash\n';
+				const { stdout } = await runWithStdin([CLI, 'format', '--config', cfg, '--commodity-spacing', 'spaced'], input);
+				expect(stdout).toMatch(/expenses:fees +-CHF10\n/);
+				expect(stdout).toMatch(/expenses:travel +5 EUR\n/);
+			} finally {
+				fs.unlinkSync(cfg);
+			}
+		});
+
+		it('rewrites payees from the config file', async () => {
+			const cfg = path.join(os.tmpdir(), `hledger-fmt-payees-${Date.now()}.json`);
+			try {
+				fs.writeFileSync(cfg, JSON.stringify({
+					format: {
+						normalizeDescriptions: true,
+						payees: { 'AMZN MKTP US*1A2B': 'Amazon' }
+					}
+				}), 'utf8');
+
+				const input = '2025-03-01 !AMZN  MKTP US*1A2B|  order 42\n  expenses:home    $30\n  assets:cash\n';
+				const { stdout } = await runWithStdin([CLI, 'format', '--config', cfg, '--status-spacing', 'unspaced'], input);
+				expect(stdout.split('\n')[0]).toBe('2025-03-01 !Amazon | order 42');
+			} finally {
+				fs.unlinkSync(cfg);
+			}
+		});
+
 		it('warns and ignores invalid config file', async () => {
 			const cfg = path.join(os.tmpdir(), `hledger-fmt-invalid-config-${Date.now()}.json`);
 			try {
@@ -179,6 +341,24 @@ describe('CLI', () => {
 				fs.unlinkSync(tmp);
 			}
 		});
+
+		it('moves periodic entries to the top with --undated-placement top', async () => {
+			const input = '2025-03-01 Earlier\n  assets:cash    $2.00\n  income\n\n~ monthly\n  expenses:food    $400.00\n  assets:checking\n';
+			const { stdout } = await runWithStdin([CLI, 'sort', '--undated-placement', 'top'], input);
+			expect(stdout.split('\n')[0]).toBe('~ monthly');
+		});
+
+		it('warns on an invalid --undated-placement value', async () => {
+			const input = readFixture('sort_in.journal');
+			const { stdout, stderr } = await runWithStdin([CLI, 'sort', '--undated-placement', 'bottom'], input);
+			expect(stderr).toContain('invalid --undated-placement value');
+			expect(normalize(stdout)).toBe(normalize(readFixture('sort_out.journal')));
+		});
+
+		it('accepts --no-verify', async () => {
+			const { stdout } = await exec('node', [CLI, 'sort', '--no-verify', fixture('sort_in.journal')]);
+			expect(normalize(stdout)).toBe(normalize(readFixture('sort_out.journal')));
+		});
 	});
 
 	describe('general', () => {
@@ -214,9 +394,32 @@ describe('CLI', () => {
 						alignment: 'widest',
 						column: 42,
 						indent: 4,
+						indentStyle: 'spaces',
+						tabWidth: 4,
 						negativeStyle: 'symbolBeforeSign',
 						dateFormat: 'YYYY-MM-DD',
-						commentChar: ';'
+						commentChar: ';',
+						expandShortDates: false,
+						alignAssertions: false,
+						normalizeAmounts: false,
+						commoditySpacing: 'preserve',
+						commoditySide: 'preserve',
+						commodities: {},
+						commentAlignment: 'preserve',
+						commentColumn: 60,
+						normalizeComments: false,
+						normalizeTags: false,
+						sortTags: false,
+						tagPlacement: 'preserve',
+						normalizeDescriptions: false,
+						payees: {},
+						statusSpacing: 'spaced',
+						transactionBlankLines: 1,
+						directiveBlankLines: null,
+						maxBlankLines: null,
+						trimTrailingWhitespace: false,
+						finalNewline: false,
+						lineEnding: 'preserve'
 					}
 				});
 			} finally {
@@ -0,0 +1,649 @@
+import type { DirectiveNode, Journal } from './ast';
+import {
+	absDecimal,
+	decimalSign,
+	formatDecimal,
+	multiplyDecimals,
+	negateDecimal,
+	parseDecimal,
+	trimDecimal,
+	type Decimal
+} from './decimal';
+import { getCommodityLayout, type FormatterOptions, type NegativeCommodityStyle } from './options';
+import { isTransactionLikeNode } from './parser';
+
+export interface ParsedAmount {
+	/** The exact quantity, keeping the number of decimal places it was written with */
+	value: Decimal;
+	currency: string;
+}
+
+export interface AmountCost {
+	/** `unit` for `@` and `{}`, `total` for `@@` and `{{}}` */
+	kind: 'unit' | 'total';
+	amount: ParsedAmount;
+}
+
+export interface PostingAmount {
+	amount: ParsedAmount;
+	/** The transaction cost written with `@` or `@@` */
+	cost: AmountCost | null;
+	/** The lot price written with `{}` or `{{}}`; `fixed` for `{=$150}` */
+	lotPrice: (AmountCost & { fixed: boolean }) | null;
+	/** The lot acquisition date written with `[2024-01-15]` */
+	lotDate: string | null;
+}
+
+export type DecimalMark = '.' | ',';
+
+export interface CommodityStyle {
+	/** Whether the commodity symbol is written before or after the quantity */
+	side: 'left' | 'right';
+	/** Whether a space separates the symbol from the quantity */
+	spaced: boolean;
+	/** Number of decimal places */
+	precision: number;
+	/** The mark between the integer and the fractional digits */
+	decimalMark: DecimalMark;
+	/** The mark between groups of three integer digits, or null for none */
+	digitGroupMark: string | null;
+}
+
+/**
+ * How the commodities of a journal are written, see collectCommodityStyles()
+ */
+export interface CommodityStyles {
+	/** The journal's `decimal-mark` directive, if any */
+	decimalMark: DecimalMark | null;
+	/** Styles declared by `commodity` and `D` directives; their decimal marks also guide parsing */
+	declared: Map<string, CommodityStyle>;
+	/** Styles of undeclared commodities, inferred from how they are first used */
+	inferred: Map<string, CommodityStyle>;
+}
+
+const DEFAULT_COMMODITY_STYLE: CommodityStyle = { side: 'left', spaced: false, precision: 2, decimalMark: '.', digitGroupMark: ',' };
+
+interface ParsedQuantity {
+	value: Decimal;
+	/** The decimal mark written in the quantity, null if it has no fractional part */
+	decimalMark: DecimalMark | null;
+	digitGroupMark: string | null;
+	integerDigits: number;
+	/** A single mark followed by three digits (`1,500`), read without knowing which mark it is */
+	ambiguous: boolean;
+}
+
+interface AmountMatch {
+	amount: ParsedAmount;
+	/** False for a bare number, which is read as `$` */
+	hasSymbol: boolean;
+	side: CommodityStyle['side'];
+	spaced: boolean;
+	/** Whether a minus sign is written, even on a zero quantity */
+	negative: boolean;
+	/** The quantity's digits and marks as written, without the sign */
+	quantityText: string;
+	quantity: ParsedQuantity;
+	/** Anything following the quantity of a symbol-first amount */
+	rest: string;
+}
+
+/**
+ * Parses the digits of an amount. With a known decimal mark the other mark groups digits.
+ * Otherwise, like hledger, the last of two different marks is the decimal mark and a
+ * mark that occurs only once is assumed to be one. A single mark followed by three
+ * digits could be either, so `1,500` is read with `ambiguousMark` when the commodity's
+ * amounts show its decimal mark, and as 1.5 when they don't.
+ */
+function parseQuantity(text: string, decimalMark: DecimalMark | null, ambiguousMark: DecimalMark | null = null): ParsedQuantity | null {
+	const marks = text.replace(/\d/g, '');
+	const ambiguous = decimalMark === null && /^\d{1,3}[.,]\d{3}$/.test(text);
+	let mark = ambiguous ? ambiguousMark : decimalMark;
+	if (mark === null && marks.length > 0) {
+		const lastMark = marks[marks.length - 1] as DecimalMark;
+		const hasOtherMark = marks.includes(lastMark === '.' ? ',' : '.');
+		mark = hasOtherMark || marks.indexOf(lastMark) === marks.length - 1 ? lastMark : null;
+	}
+
+	const decimalIndex = mark === null ? -1 : text.lastIndexOf(mark);
+	const integerText = decimalIndex === -1 ? text : text.slice(0, decimalIndex);
+	const fractionText = decimalIndex === -1 ? '' : text.slice(decimalIndex + 1);
+	const groupMarks = new Set(integerText.replace(/\d/g, ''));
+	if (groupMarks.size > 1 || (mark !== null && groupMarks.has(mark)) || /\D/.test(fractionText)) {
+		return null;
+	}
+
+	const integerDigits = integerText.replace(/\D/g, '');
+	const value = parseDecimal(fractionText ? `${integerDigits}.${fractionText}` : integerDigits);
+	if (!value) {
+		return null;
+	}
+
+	return {
+		value,
+		decimalMark: decimalIndex === -1 ? null : mark,
+		digitGroupMark: groupMarks.size === 1 ? [...groupMarks][0] : null,
+		integerDigits: integerDigits.length,
+		ambiguous: ambiguous && ambiguousMark === null
+	};
+}
+
+/**
+ * The decimal mark to read a commodity's amounts with: its declared one, else the
+ * journal's `decimal-mark`, else null to guess from the number itself
+ */
+function getParsingDecimalMark(styles: CommodityStyles | null, currency: string): DecimalMark | null {
+	return styles?.declared.get(currency)?.decimalMark ?? styles?.decimalMark ?? null;
+}
+
+/**
+ * Parses a commodity's quantity, reading an ambiguous one like `1,500` with the
+ * decimal mark inferred from the commodity's other amounts
+ */
+function parseCommodityQuantity(text: string, styles: CommodityStyles | null, currency: string): ParsedQuantity | null {
+	return parseQuantity(text, getParsingDecimalMark(styles, currency), styles?.inferred.get(currency)?.decimalMark ?? null);
+}
+
+const COMMODITY_SYMBOL = '"[^"]+"|[^\\d\\-+.@*;\\t "{}=]+';
+const QUANTITY = '\\d+(?:[.,]\\d+)*';
+const CURRENCY_FIRST_AMOUNT = new RegExp(`^(-)?(${COMMODITY_SYMBOL})(\\s*)(-)?(${QUANTITY})(.*)$`);
+const NUMBER_FIRST_AMOUNT = new RegExp(`^(-)?(${QUANTITY})(\\s*)(${COMMODITY_SYMBOL})?$`);
+
+function matchAmount(amountStr: string, styles: CommodityStyles | null): AmountMatch | null {
+	const trimmed = amountStr.trim();
+
+	// Try to match currency before number: $100, -$100, $-100, "US Dollar" 100, USD 100
+	const currencyFirstMatch = trimmed.match(CURRENCY_FIRST_AMOUNT);
+	if (currencyFirstMatch) {
+		const currency = currencyFirstMatch[2];
+		const quantity = parseCommodityQuantity(currencyFirstMatch[5], styles, currency);
+		if (!quantity) {
+			return null;
+		}
+
+		// Determine sign
+		const isNegative = currencyFirstMatch[1] === '-' || currencyFirstMatch[4] === '-';
+		return {
+			amount: { value: isNegative ? negateDecimal(quantity.value) : quantity.value, currency },
+			hasSymbol: true,
+			side: 'left',
+			spaced: currencyFirstMatch[3].length > 0,
+			negative: isNegative,
+			quantityText: currencyFirstMatch[5],
+			quantity,
+			rest: currencyFirstMatch[6]
+		};
+	}
+
+	// Try to match plain number before currency: 100.50 USD, -100.50 "US Dollar", 100 €
+	const numberFirstMatch = trimmed.match(NUMBER_FIRST_AMOUNT);
+	if (numberFirstMatch) {
+		const symbol = numberFirstMatch[4];
+		const currency = symbol || '$'; // Default to $
+		const quantity = parseCommodityQuantity(numberFirstMatch[2], styles, currency);
+		if (!quantity) {
+			return null;
+		}
+
+		const isNegative = numberFirstMatch[1] === '-';
+		return {
+			amount: { value: isNegative ? negateDecimal(quantity.value) : quantity.value, currency },
+			hasSymbol: symbol !== undefined,
+			side: 'right',
+			spaced: numberFirstMatch[3].length > 0,
+			negative: isNegative,
+			quantityText: numberFirstMatch[2],
+			quantity,
+			rest: ''
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Parses an amount string and extracts value and currency
+ * @param amountStr Amount string (e.g., "$100.50", "-$50.00", "100.50 USD", "1.234,56 EUR")
+ * @param styles The journal's commodity styles, used to tell decimal marks from digit group marks
+ * @returns Parsed amount or null if invalid
+ */
+export function parseAmount(amountStr: string, styles: CommodityStyles | null = null): ParsedAmount | null {
+	return matchAmount(amountStr, styles)?.amount ?? null;
+}
+
+const SYMBOL_BEFORE_QUANTITY = new RegExp(`(${COMMODITY_SYMBOL})\\s*-?$`);
+const SYMBOL_AFTER_QUANTITY = new RegExp(`^\\s*(${COMMODITY_SYMBOL})`);
+
+/**
+ * Finds the decimal mark of the first amount in a text, for lining amounts up on it.
+ * A quantity without a fractional part gets the position just after its last digit.
+ * @param amountText A posting amount, possibly followed by a cost or balance assertion
+ * @param styles The journal's commodity styles, used to tell decimal marks from digit group marks
+ * @returns The index of the decimal mark, or the text length if the text has no quantity
+ */
+export function findDecimalMarkIndex(amountText: string, styles: CommodityStyles | null = null): number {
+	const quantityPattern = new RegExp(`"[^"]*"|(${QUANTITY})`, 'g');
+	for (const match of amountText.matchAll(quantityPattern)) {
+		const quantityText = match[1];
+		if (quantityText === undefined) {
+			continue;
+		}
+
+		const start = match.index ?? 0;
+		const currency = amountText.slice(0, start).match(SYMBOL_BEFORE_QUANTITY)?.[1]
+			?? amountText.slice(start + quantityText.length).match(SYMBOL_AFTER_QUANTITY)?.[1]
+			?? '$';
+		const quantity = parseCommodityQuantity(quantityText, styles, currency);
+		const mark = quantity?.decimalMark;
+		return start + (mark ? quantityText.lastIndexOf(mark) : quantityText.length);
+	}
+	return amountText.length;
+}
+
+// The quantity runs up to the first annotation; quoted commodity names may contain anything
+const AMOUNT_QUANTITY = /^(?:"[^"]*"|[^"@{[(])*/;
+const AMOUNT_ANNOTATION = /^(?:\{\{(=?)([^}]*)\}\}|\{(=?)([^}]*)\}|\[([^\]]*)\]|\(([^)]*)\))\s*/;
+
+/**
+ * Parses a posting amount with its lot annotations and cost, e.g.
+ * `10 AAPL {$150} [2024-01-15] @ $170` or `€100 @@ $108`
+ * @param amountStr The posting amount, without any balance assertion
+ * @param styles The journal's commodity styles, used to tell decimal marks from digit group marks
+ * @returns The parsed amount, or null if the quantity or one of its annotations is invalid
+ */
+export function parsePostingAmount(amountStr: string, styles: CommodityStyles | null = null): PostingAmount | null {
+	const text = amountStr.replace(/;.*$/, '').trim();
+	const quantityText = text.match(AMOUNT_QUANTITY)?.[0] ?? '';
+	const amount = parseAmount(quantityText, styles);
+	if (!amount) {
+		return null;
+	}
+
+	let rest = text.slice(quantityText.length).trim();
+	let lotPrice: PostingAmount['lotPrice'] = null;
+	let lotDate: string | null = null;
+	let match: RegExpMatchArray | null;
+	while ((match = rest.match(AMOUNT_ANNOTATION))) {
+		const priceText = match[2] ?? match[4];
+		if (priceText !== undefined) {
+			const price = parseAmount(priceText, styles);
+			if (!price) {
+				return null;
+			}
+			lotPrice = {
+				kind: match[2] !== undefined ? 'total' : 'unit',
+				amount: price,
+				fixed: (match[1] ?? match[3]) === '='
+			};
+		} else if (match[5] !== undefined) {
+			lotDate = match[5].trim();
+		}
+		// A lot note in parentheses does not affect the amount
+		rest = rest.slice(match[0].length);
+	}
+
+	let cost: AmountCost | null = null;
+	const costMatch = rest.match(/^(@@?)\s*(.+)$/);
+	if (costMatch) {
+		const costAmount = parseAmount(costMatch[2], styles);
+		if (!costAmount) {
+			return null;
+		}
+		cost = { kind: costMatch[1] === '@@' ? 'total' : 'unit', amount: costAmount };
+	} else if (rest) {
+		return null;
+	}
+
+	return { amount, cost, lotPrice, lotDate };
+}
+
+/**
+ * Converts a posting amount into the amount it contributes to the transaction balance.
+ * Like hledger, a cost converts the quantity into the cost's commodity; without a cost
+ * the lot price is used.
+ * @param postingAmount The parsed posting amount
+ * @returns The amount to sum when balancing
+ */
+export function getBalancingValue(postingAmount: PostingAmount): ParsedAmount {
+	const conversion = postingAmount.cost ?? postingAmount.lotPrice;
+	if (!conversion) {
+		return postingAmount.amount;
+	}
+
+	const quantity = postingAmount.amount.value;
+	const totalCost = absDecimal(conversion.amount.value);
+	const value = conversion.kind === 'unit'
+		? multiplyDecimals(quantity, conversion.amount.value)
+		: decimalSign(quantity) < 0 ? negateDecimal(totalCost) : totalCost;
+	return { value, currency: conversion.amount.currency };
+}
+
+// Splits a posting amount into its quantity, lot price and cost, dropping lot dates and notes
+const AMOUNT_SEPARATORS = /@@?|\{\{?=?|\}\}?|\[[^\]]*\]|\([^)]*\)/;
+
+function matchAmounts(amountText: string, styles: CommodityStyles | null): AmountMatch[] {
+	return amountText.replace(/;.*$/, '')
+		.split(AMOUNT_SEPARATORS)
+		.map(part => matchAmount(part, styles))
+		.filter((match): match is AmountMatch => match !== null && match.hasSymbol);
+}
+
+interface StyleObservation {
+	style: CommodityStyle;
+	/** Whether an amount has shown how (or whether) the commodity groups its digits */
+	groupingSeen: boolean;
+	/** Whether an amount has shown which mark is the decimal mark */
+	decimalMarkSeen: boolean;
+	/** Ambiguous quantities like `1,500`, kept until an amount shows the decimal mark */
+	pending: string[];
+}
+
+function getDefaultDigitGroupMark(decimalMark: DecimalMark): string {
+	return decimalMark === ',' ? '.' : ',';
+}
+
+/**
+ * Adds a quantity to a commodity's style. The decimal mark comes from the first
+ * quantity with a decimal or digit group mark, after which the ambiguous quantities
+ * seen before it are read. A group mark that is the decimal mark taken from an
+ * earlier amount (`1,5`, then `1,500.00`) shows that mark groups digits, so the
+ * other one becomes the decimal mark.
+ */
+function addQuantity(observation: StyleObservation, quantity: ParsedQuantity): void {
+	const { style } = observation;
+	style.precision = Math.max(style.precision, quantity.value.scale);
+
+	if (!observation.decimalMarkSeen && (quantity.decimalMark !== null || quantity.digitGroupMark !== null)) {
+		style.decimalMark = quantity.decimalMark ?? (quantity.digitGroupMark === ',' ? '.' : ',');
+		observation.decimalMarkSeen = true;
+		if (!observation.groupingSeen) {
+			style.digitGroupMark = getDefaultDigitGroupMark(style.decimalMark);
+		}
+		for (const text of observation.pending.splice(0)) {
+			const pendingQuantity = parseQuantity(text, style.decimalMark);
+			if (pendingQuantity) {
+				addQuantity(observation, pendingQuantity);
+			}
+		}
+	}
+
+	if ((quantity.digitGroupMark !== null || quantity.integerDigits > 3) && !observation.groupingSeen) {
+		const groupMark = quantity.digitGroupMark;
+		if (groupMark !== null && groupMark === style.decimalMark) {
+			style.decimalMark = quantity.decimalMark ?? (groupMark === ',' ? '.' : ',');
+		}
+		style.digitGroupMark = groupMark;
+		observation.groupingSeen = true;
+	}
+}
+
+/**
+ * Adds one amount to the styles inferred so far. Like hledger, the first amount of a
+ * commodity fixes its symbol placement and the precision is the largest seen. The
+ * digit group mark comes from the first amount with four or more integer digits;
+ * until one is seen the usual mark for the decimal mark is assumed.
+ */
+function observeAmount(observations: Map<string, StyleObservation>, match: AmountMatch, decimalMark: DecimalMark | null): void {
+	let observation = observations.get(match.amount.currency);
+	if (!observation) {
+		const mark = decimalMark ?? DEFAULT_COMMODITY_STYLE.decimalMark;
+		observation = {
+			style: { side: match.side, spaced: match.spaced, precision: 0, decimalMark: mark, digitGroupMark: getDefaultDigitGroupMark(mark) },
+			groupingSeen: false,
+			decimalMarkSeen: decimalMark !== null,
+			pending: []
+		};
+		observations.set(match.amount.currency, observation);
+	}
+
+	if (!match.quantity.ambiguous) {
+		addQuantity(observation, match.quantity);
+	} else if (observation.decimalMarkSeen) {
+		const quantity = parseQuantity(match.quantityText, observation.style.decimalMark);
+		if (quantity) {
+			addQuantity(observation, quantity);
+		}
+	} else {
+		observation.pending.push(match.quantityText);
+	}
+}
+
+/**
+ * Reads the ambiguous quantities of commodities whose amounts never showed their
+ * decimal mark, taking the mark of the first one as the decimal mark
+ */
+function settleAmbiguousQuantities(observations: Map<string, StyleObservation>): void {
+	for (const observation of observations.values()) {
+		const first = observation.pending.shift();
+		const quantity = first === undefined ? null : parseQuantity(first, null);
+		if (quantity) {
+			addQuantity(observation, quantity);
+		}
+	}
+}
+
+/**
+ * Infers how a commodity is written from amounts that use it
+ * @param amountTexts Amount texts to search, e.g. the posting amounts of a transaction
+ * @param currency The commodity symbol
+ * @param styles The journal's commodity styles, used to tell decimal marks from digit group marks
+ * @returns The commodity's style, or null if none of the amounts uses it
+ */
+export function inferCommodityStyle(amountTexts: string[], currency: string, styles: CommodityStyles | null = null): CommodityStyle | null {
+	const observations = new Map<string, StyleObservation>();
+	for (const text of amountTexts) {
+		for (const match of matchAmounts(text, styles)) {
+			observeAmount(observations, match, styles?.decimalMark ?? null);
+		}
+	}
+	settleAmbiguousQuantities(observations);
+	return observations.get(currency)?.style ?? null;
+}
+
+function stripDirectiveComment(argument: string): string {
+	return argument.replace(/\s*;.*$/, '').trim();
+}
+
+/**
+ * Returns the sample amount that declares a commodity's style: the argument of
+ * `commodity 1.000,00 EUR` or `D $1,000.00`, or the `format` subdirective of `commodity EUR`
+ */
+function getDirectiveAmountSample(directive: DirectiveNode): string | null {
+	const argument = stripDirectiveComment(directive.argument);
+	if (directive.keyword === 'D') {
+		return argument;
+	}
+	if (directive.keyword !== 'commodity') {
+		return null;
+	}
+	if (/\d/.test(argument)) {
+		return argument;
+	}
+
+	const format = directive.children.find(child => child.type === 'directive' && child.keyword === 'format');
+	return format?.type === 'directive' ? stripDirectiveComment(format.argument) : null;
+}
+
+/**
+ * Collects the display style of every commodity in a journal. `commodity` and `D`
+ * directives declare styles wherever they appear in the file; other commodities are
+ * styled after their first use in a posting amount, cost or balance assertion.
+ * @param journal The parsed journal
+ * @returns The journal's decimal mark and commodity styles
+ */
+export function collectCommodityStyles(journal: Journal): CommodityStyles {
+	const styles: CommodityStyles = { decimalMark: null, declared: new Map(), inferred: new Map() };
+	const directives = journal.nodes.filter((node): node is DirectiveNode => node.type === 'directive');
+
+	for (const directive of directives) {
+		const mark = stripDirectiveComment(directive.argument);
+		if (directive.keyword === 'decimal-mark' && (mark === '.' || mark === ',')) {
+			styles.decimalMark = mark;
+		}
+	}
+
+	for (const directive of directives) {
+		const sample = getDirectiveAmountSample(directive);
+		const match = sample ? matchAmount(sample, styles) : null;
+		if (match?.hasSymbol) {
+			const observations = new Map<string, StyleObservation>();
+			observeAmount(observations, match, styles.decimalMark);
+			settleAmbiguousQuantities(observations);
+			styles.declared.set(match.amount.currency, observations.get(match.amount.currency)!.style);
+		}
+	}
+
+	const observations = new Map<string, StyleObservation>();
+	for (const node of journal.nodes) {
+		if (!isTransactionLikeNode(node)) {
+			continue;
+		}
+		for (const posting of node.postings) {
+			for (const text of [posting.amount, posting.assertion]) {
+				for (const match of text ? matchAmounts(text, styles) : []) {
+					if (!styles.declared.has(match.amount.currency)) {
+						observeAmount(observations, match, styles.decimalMark);
+					}
+				}
+			}
+		}
+	}
+
+	settleAmbiguousQuantities(observations);
+	for (const [currency, observation] of observations) {
+		styles.inferred.set(currency, observation.style);
+	}
+	return styles;
+}
+
+/**
+ * Looks up a commodity's style, preferring a declared style over an inferred one
+ * @returns The style, or null if the commodity is neither declared nor used in the journal
+ */
+export function findCommodityStyle(styles: CommodityStyles, currency: string): CommodityStyle | null {
+	return styles.declared.get(currency) ?? styles.inferred.get(currency) ?? null;
+}
+
+/**
+ * The style for a commodity the journal says nothing about: a left symbol with two
+ * decimal places, using the journal's decimal mark
+ */
+export function getDefaultCommodityStyle(styles: CommodityStyles | null): CommodityStyle {
+	const decimalMark = styles?.decimalMark ?? DEFAULT_COMMODITY_STYLE.decimalMark;
+	return { ...DEFAULT_COMMODITY_STYLE, decimalMark, digitGroupMark: getDefaultDigitGroupMark(decimalMark) };
+}
+
+/**
+ * Formats an amount value with currency. The value is never rounded: it is shown with
+ * the commodity's precision, or more decimal places if it needs them.
+ * @param value Exact numeric value
+ * @param currency Currency symbol or code
+ * @param style Negative commodity style
+ * @param commodityStyle Symbol placement, precision and marks; defaults to a left symbol with two decimals
+ * @returns Formatted amount string
+ */
+export function formatAmountValue(value: Decimal, currency: string, style: NegativeCommodityStyle, commodityStyle: CommodityStyle = DEFAULT_COMMODITY_STYLE): string {
+	const isNegative = decimalSign(value) < 0;
+	const precision = Math.max(commodityStyle.precision, trimDecimal(value).scale);
+
+	// Format number with the commodity's decimal places and digit groups in the integer part
+	const [integerPart, fractionPart] = formatDecimal(absDecimal(value), precision).split('.');
+	const groupedInteger = commodityStyle.digitGroupMark === null
+		? integerPart
+		: integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, commodityStyle.digitGroupMark);
+	const formattedNumber = fractionPart === undefined ? groupedInteger : `${groupedInteger}${commodityStyle.decimalMark}${fractionPart}`;
+	return composeAmount(formattedNumber, isNegative, currency, commodityStyle.side, commodityStyle.spaced, style);
+}
+
+/**
+ * Puts a quantity, its sign and its commodity symbol together
+ */
+function composeAmount(quantity: string, negative: boolean, currency: string, side: CommodityStyle['side'], spaced: boolean, style: NegativeCommodityStyle): string {
+	const space = spaced ? ' ' : '';
+
+	// Right-side commodities always carry the sign on the number: -10 AAPL
+	if (side === 'right') {
+		return `${negative ? '-' : ''}${quantity}${space}${currency}`;
+	}
+
+	// Apply currency and sign based on style
+	if (style === 'signBeforeSymbol') {
+		// -$100.00
+		return negative ? `-${currency}${space}${quantity}` : `${currency}${space}${quantity}`;
+	} else {
+		// $-100.00 or $100.00
+		return negative ? `${currency}${space}-${quantity}` : `${currency}${space}${quantity}`;
+	}
+}
+
+/**
+ * Applies a rendering function to each amount in a posting amount or balance
+ * assertion: the quantity, the lot price and the cost. Lot dates, notes and
+ * text from a `#` (which only starts a comment at the start of a line) are kept
+ * as written.
+ */
+function mapAmountText(amountText: string, renderAmount: (amount: string) => string): string {
+	const hashIndex = amountText.search(/\s#/);
+	const text = hashIndex === -1 ? amountText : amountText.slice(0, hashIndex);
+	const trailing = hashIndex === -1 ? '' : amountText.slice(hashIndex);
+
+	const quantityText = text.match(AMOUNT_QUANTITY)?.[0] ?? '';
+	const annotations = text.slice(quantityText.length)
+		.replace(/(\{\{?=?)([^}]*)(\}\}?)/g, (_match, open: string, price: string, close: string) => `${open}${renderAmount(price)}${close}`)
+		.replace(/(@@?)\s*(.*\S)/, (_match, operator: string, cost: string) => `${operator} ${renderAmount(cost)}`)
+		.trim();
+
+	return [renderAmount(quantityText), annotations].filter(Boolean).join(' ') + trailing;
+}
+
+/**
+ * Matches an amount that can be safely rewritten: one with a commodity symbol and nothing after it
+ */
+function matchRewritableAmount(part: string, styles: CommodityStyles | null): AmountMatch | null {
+	const match = matchAmount(part, styles);
+	return match && match.hasSymbol && !match.rest.trim() ? match : null;
+}
+
+/**
+ * Rewrites the amounts in a posting amount or balance assertion in their commodity's
+ * style, e.g. `EUR 1234.5` as `1.234,50 EUR` after `commodity 1.000,00 EUR`. Lot
+ * dates and notes are kept, as are amounts without a commodity symbol or
+ * that can't be parsed.
+ * @param amountText The posting amount or asserted balance
+ * @param styles The journal's commodity styles
+ * @param style Negative commodity style
+ * @returns The amount text with its amounts re-rendered
+ */
+export function normalizeAmountText(amountText: string, styles: CommodityStyles, style: NegativeCommodityStyle): string {
+	return mapAmountText(amountText, part => {
+		const match = matchRewritableAmount(part, styles);
+		if (!match) {
+			return part.trim();
+		}
+		const { value, currency } = match.amount;
+		const commodityStyle = findCommodityStyle(styles, currency) ?? getDefaultCommodityStyle(styles);
+		return formatAmountValue(value, currency, style, commodityStyle);
+	});
+}
+
+/**
+ * Moves the sign, symbol spacing and symbol side of the amounts in a posting amount or
+ * balance assertion to the configured layout, keeping the digits as written. Works for
+ * any commodity symbol, code or quoted name, e.g. `CHF-10`, `R$ -5` or `"Gift Card"-20`.
+ * @param amountText The posting amount or asserted balance
+ * @param options Normalized formatter options with the global and per-commodity layouts
+ * @returns The amount text with its amounts laid out
+ */
+export function layoutAmountText(amountText: string, options: FormatterOptions): string {
+	return mapAmountText(amountText, part => {
+		const match = matchRewritableAmount(part, null);
+		if (!match) {
+			return part.trim();
+		}
+		const { currency } = match.amount;
+		const layout = getCommodityLayout(options, currency);
+		const side = layout.commoditySide === 'preserve' ? match.side : layout.commoditySide;
+		const spaced = layout.commoditySpacing === 'preserve' ? match.spaced : layout.commoditySpacing === 'spaced';
+		return composeAmount(match.quantityText, match.negative, currency, side, spaced, layout.negativeCommodityStyle);
+	});
+}
@@ -0,0 +1,194 @@
+import type { CommentCharacter } from './options';
+
+export interface DateComponents {
+	year: number;
+	month: number;
+	day: number;
+}
+
+/**
+ * A zero-based position in the source text
+ */
+export interface SourcePosition {
+	line: number;
+	column: number;
+}
+
+/**
+ * The source range covered by a node. `start` points past the indentation of the
+ * first line, `end` points just past the last character of the last line.
+ */
+export interface SourceSpan {
+	start: SourcePosition;
+	end: SourcePosition;
+}
+
+interface BaseNode {
+	span: SourceSpan;
+	/** The exact source text of the node, lines joined with '\n' */
+	raw: string;
+}
+
+/**
+ * An hledger tag in a comment, e.g. `project:house`
+ */
+export interface Tag {
+	name: string;
+	/** The value after the `:` up to the next comma, trimmed; empty for a bare `name:` */
+	value: string;
+}
+
+export type TransactionStatus = '' | '*' | '!';
+
+export interface TransactionDate {
+	/** The date as written in the source, e.g. "2025/3/1" or "3/1" */
+	raw: string;
+	/** The date with a year-less date's year resolved */
+	components: DateComponents;
+	/** True when the source omits the year */
+	short: boolean;
+}
+
+export interface TransactionHeader extends BaseNode {
+	date: TransactionDate;
+	/** The date after `=` in `2025-03-01=2025-03-05`, if any */
+	secondaryDate: TransactionDate | null;
+	status: TransactionStatus;
+	/** True when whitespace follows the status marker, as in `! Payee` */
+	statusSpaced: boolean;
+	/** The code between parentheses, without the parentheses */
+	code: string | null;
+	description: string;
+	/** The description up to its first `|`, trimmed; the whole description when it has no `|` */
+	payee: string;
+	/** The description after its first `|`, trimmed, or null when it has no `|` */
+	note: string | null;
+	/** The trailing comment starting at its `;`, if any */
+	comment: string | null;
+	/** The whitespace written between the description and the trailing comment */
+	commentGap: string;
+	/** The tags in the trailing comment */
+	tags: Tag[];
+}
+
+/**
+ * `=` and `==` assert the balance of one commodity or all commodities; the `*`
+ * variants include subaccounts
+ */
+export type BalanceAssertionOperator = '=' | '==' | '=*' | '==*';
+
+/**
+ * `regular` postings must balance; `virtual` postings, written `(account)`, need not;
+ * `balancedVirtual` postings, written `[account]`, must balance among themselves
+ */
+export type PostingType = 'regular' | 'virtual' | 'balancedVirtual';
+
+export interface PostingNode extends BaseNode {
+	type: 'posting';
+	/** The `*` or `!` status marker before the account, if any */
+	status: TransactionStatus;
+	postingType: PostingType;
+	/** The account name, without the status marker or virtual posting brackets */
+	account: string;
+	/** The posted amount, null when omitted (including bare `= $500` balance assignments) */
+	amount: string | null;
+	assertionOperator: BalanceAssertionOperator | null;
+	/** The asserted or assigned balance after the operator */
+	assertion: string | null;
+	/** The trailing comment starting at its `;`, if any */
+	comment: string | null;
+	/** The whitespace written between the amount (or account) and the trailing comment */
+	commentGap: string;
+	/** True when the amount was told apart from the account by its leading digits, as no two spaces or tab separate them */
+	separatorGuessed: boolean;
+	/** The tags in the trailing comment */
+	tags: Tag[];
+}
+
+export interface CommentNode extends BaseNode {
+	type: 'comment';
+	marker: CommentCharacter;
+	/** The comment text after the marker and its following space */
+	text: string;
+	tags: Tag[];
+}
+
+export interface PeriodicTransactionHeader extends BaseNode {
+	/** The period expression after `~`, e.g. "monthly from 2024-01" */
+	period: string;
+	/** The description, separated from the period expression by two or more spaces */
+	description: string;
+	comment: string | null;
+	commentGap: string;
+	tags: Tag[];
+}
+
+export interface AutoPostingRuleHeader extends BaseNode {
+	/** The query after `=` selecting the postings the rule applies to */
+	query: string;
+	comment: string | null;
+	commentGap: string;
+	tags: Tag[];
+}
+
+interface TransactionBody {
+	/** Postings and comment lines in source order */
+	children: Array<PostingNode | CommentNode>;
+	postings: PostingNode[];
+}
+
+export interface TransactionNode extends BaseNode, TransactionBody {
+	type: 'transaction';
+	header: TransactionHeader;
+}
+
+/**
+ * A `~ PERIOD` budget/forecast entry
+ */
+export interface PeriodicTransactionNode extends BaseNode, TransactionBody {
+	type: 'periodicTransaction';
+	header: PeriodicTransactionHeader;
+}
+
+/**
+ * A `= QUERY` auto posting rule
+ */
+export interface AutoPostingRuleNode extends BaseNode, TransactionBody {
+	type: 'autoPostingRule';
+	header: AutoPostingRuleHeader;
+}
+
+export type TransactionLikeNode = TransactionNode | PeriodicTransactionNode | AutoPostingRuleNode;
+
+export interface DirectiveNode extends BaseNode {
+	type: 'directive';
+	/** The directive keyword as written, e.g. "account", "P" or "!include" */
+	keyword: string;
+	/** Everything after the keyword on the first line, trimmed */
+	argument: string;
+	/** Indented subdirectives and comment lines belonging to this directive */
+	children: Array<DirectiveNode | CommentNode>;
+}
+
+export interface CommentBlockNode extends BaseNode {
+	type: 'commentBlock';
+	/** True for a `comment` ... `end comment` block, false for a run of comment lines */
+	delimited: boolean;
+	/** False when a delimited block reaches the end of the file without `end comment` */
+	terminated: boolean;
+	/** The individual comment lines of an undelimited run */
+	comments: CommentNode[];
+}
+
+export interface BlankRunNode extends BaseNode {
+	type: 'blankRun';
+	count: number;
+}
+
+export type JournalNode = TransactionLikeNode | DirectiveNode | CommentBlockNode | BlankRunNode;
+
+export interface Journal {
+	/** Top-level nodes covering every line of the source, in order */
+	nodes: JournalNode[];
+	lineCount: number;
+}
@@ -0,0 +1,102 @@
+/**
+ * An exact decimal number: `units` divided by 10^`scale`, so 12.50 is
+ * `{ units: 1250n, scale: 2 }`. The scale keeps the precision the number was
+ * written with, trailing zeros included.
+ */
+export interface Decimal {
+	units: bigint;
+	scale: number;
+}
+
+const DECIMAL_PATTERN = /^([-+])?(\d+)(?:\.(\d*))?$/;
+
+function powerOfTen(exponent: number): bigint {
+	return 10n ** BigInt(exponent);
+}
+
+/**
+ * Parses a plain decimal such as "-1234.50", without digit group marks
+ * @param text The number to parse, using `.` as the decimal mark
+ * @returns The decimal, or null if the text is not a plain number
+ */
+export function parseDecimal(text: string): Decimal | null {
+	const match = text.trim().match(DECIMAL_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const fraction = match[3] ?? '';
+	const units = BigInt(`${match[2]}${fraction}`);
+	return { units: match[1] === '-' ? -units : units, scale: fraction.length };
+}
+
+/**
+ * Changes the scale of a decimal, padding with zeros or rounding half away from zero
+ */
+export function setDecimalScale(value: Decimal, scale: number): Decimal {
+	if (scale >= value.scale) {
+		return { units: value.units * powerOfTen(scale - value.scale), scale };
+	}
+
+	const divisor = powerOfTen(value.scale - scale);
+	const magnitude = value.units < 0n ? -value.units : value.units;
+	let rounded = magnitude / divisor;
+	if ((magnitude % divisor) * 2n >= divisor) {
+		rounded += 1n;
+	}
+	return { units: value.units < 0n ? -rounded : rounded, scale };
+}
+
+/**
+ * Drops trailing zeros after the decimal mark, e.g. 13.500 becomes 13.5
+ */
+export function trimDecimal(value: Decimal): Decimal {
+	let { units, scale } = value;
+	while (scale > 0 && units % 10n === 0n) {
+		units /= 10n;
+		scale--;
+	}
+	return { units, scale };
+}
+
+export function addDecimals(a: Decimal, b: Decimal): Decimal {
+	const scale = Math.max(a.scale, b.scale);
+	return { units: setDecimalScale(a, scale).units + setDecimalScale(b, scale).units, scale };
+}
+
+export function multiplyDecimals(a: Decimal, b: Decimal): Decimal {
+	return { units: a.units * b.units, scale: a.scale + b.scale };
+}
+
+export function negateDecimal(value: Decimal): Decimal {
+	return { units: -value.units, scale: value.scale };
+}
+
+export function absDecimal(value: Decimal): Decimal {
+	return value.units < 0n ? negateDecimal(value) : value;
+}
+
+/**
+ * @returns -1, 0 or 1 depending on the sign of the decimal
+ */
+export function decimalSign(value: Decimal): number {
+	return value.units === 0n ? 0 : value.units < 0n ? -1 : 1;
+}
+
+/**
+ * Formats a decimal with `.` as the decimal mark and no digit group marks
+ * @param value The decimal to format
+ * @param scale The number of decimal places; defaults to the decimal's own scale
+ */
+export function formatDecimal(value: Decimal, scale: number = value.scale): string {
+	const scaled = setDecimalScale(value, scale);
+	const magnitude = (scaled.units < 0n ? -scaled.units : scaled.units).toString().padStart(scale + 1, '0');
+	const integerPart = magnitude.slice(0, magnitude.length - scale);
+	const fractionPart = magnitude.slice(magnitude.length - scale);
+	const sign = scaled.units < 0n ? '-' : '';
+	return scale > 0 ? `${sign}${integerPart}.${fractionPart}` : `${sign}${integerPart}`;
+}
+
+export function decimalToNumber(value: Decimal): number {
+	return Number(formatDecimal(value));
+}
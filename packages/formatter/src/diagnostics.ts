@@ -0,0 +1,163 @@
+import type { DateComponents, Journal, JournalNode, PostingNode, TransactionDate, TransactionNode } from './ast';
+import { collectCommodityStyles, parsePostingAmount, type CommodityStyles } from './amount';
+import { isMetadataPostingLine } from './parser';
+import { findUnformattedNodes } from './pragmas';
+
+/**
+ * `guessed-separator`: a single space separates an account from what looks like its amount.
+ * `unrecognized-line`: a line inside a transaction that hledger would not read as a posting.
+ * `unterminated-comment-block`: a `comment` block without `end comment`.
+ * `invalid-date`: a date that does not exist, e.g. `2024-02-30` or `2024-13-01`.
+ */
+export type FormatterWarningCode = 'guessed-separator' | 'unrecognized-line' | 'unterminated-comment-block' | 'invalid-date';
+
+/**
+ * A line the formatter could not read with certainty
+ */
+export interface FormatterWarning {
+	/** Zero-based line */
+	line: number;
+	/** Zero-based column where the problem starts */
+	column: number;
+	code: FormatterWarningCode;
+	message: string;
+}
+
+// A number that looks like a full or year-less date at the start of a line
+const DATE_LIKE = /^\d{1,4}[-/.]\d{1,2}(?:[-/.]\d{1,2})?(?=[\s=;]|$)/;
+
+function getIndentLength(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function getDaysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isExistingDate(components: DateComponents): boolean {
+	return components.day <= getDaysInMonth(components.year, components.month);
+}
+
+function invalidDateWarning(line: number, column: number, date: string): FormatterWarning {
+	return { line, column, code: 'invalid-date', message: `Invalid date "${date}"` };
+}
+
+function findTransactionDateWarnings(transaction: TransactionNode): FormatterWarning[] {
+	const { header } = transaction;
+	const line = header.span.start.line;
+	const dateColumn = getIndentLength(header.raw);
+	const warnings: FormatterWarning[] = [];
+
+	const dates: Array<[TransactionDate, number]> = [[header.date, dateColumn]];
+	const afterDate = header.raw.slice(dateColumn + header.date.raw.length);
+	if (header.secondaryDate) {
+		dates.push([header.secondaryDate, dateColumn + header.date.raw.length + 1]);
+	} else if (afterDate.startsWith('=')) {
+		// The secondary date could not be read, so it was left in the description
+		const secondary = afterDate.slice(1).match(/^\S+/);
+		warnings.push(invalidDateWarning(line, dateColumn + header.date.raw.length + 1, secondary ? secondary[0] : ''));
+	}
+
+	for (const [date, column] of dates) {
+		if (!isExistingDate(date.components)) {
+			warnings.push(invalidDateWarning(line, column, date.raw));
+		}
+	}
+	return warnings;
+}
+
+function findPostingWarnings(posting: PostingNode, styles: CommodityStyles): FormatterWarning[] {
+	const line = posting.span.start.line;
+	// `key: value` lines are metadata the formatter keeps as written
+	if (isMetadataPostingLine(posting.raw.trim())) {
+		return [];
+	}
+
+	if (posting.span.start.column === 0) {
+		return [{
+			line,
+			column: 0,
+			code: 'unrecognized-line',
+			message: 'Unindented line inside a transaction; hledger only reads indented lines as postings'
+		}];
+	}
+
+	if (posting.amount === null) {
+		return [];
+	}
+
+	if (posting.separatorGuessed) {
+		// The amount was found by its digits, so a commodity symbol written before them is left in the account
+		const amountColumn = Math.max(posting.raw.lastIndexOf(posting.amount), posting.span.start.column);
+		const column = posting.raw.slice(0, amountColumn).search(/\S*$/);
+		const written = posting.raw.slice(column, amountColumn + posting.amount.length);
+		return [{
+			line,
+			column,
+			code: 'guessed-separator',
+			message: `Only one space before the amount "${written}": it is formatted as an amount, but hledger reads it as part of the account name`
+		}];
+	}
+
+	// Auto posting rules may give a multiplier (`*0.5`) instead of an amount
+	if (!posting.amount.startsWith('*') && parsePostingAmount(posting.amount, styles) === null) {
+		return [{
+			line,
+			column: Math.max(posting.raw.lastIndexOf(posting.amount), posting.span.start.column),
+			code: 'unrecognized-line',
+			message: `Could not read the amount "${posting.amount}"`
+		}];
+	}
+	return [];
+}
+
+function findNodeWarnings(node: JournalNode, unformatted: boolean, styles: CommodityStyles): FormatterWarning[] {
+	switch (node.type) {
+		case 'transaction':
+		case 'periodicTransaction':
+		case 'autoPostingRule': {
+			const warnings: FormatterWarning[] = [];
+			if (node.type === 'transaction') {
+				warnings.push(...findTransactionDateWarnings(node));
+			} else {
+				// A line starting with a date that could not be read is parsed as an auto posting rule
+				const dateLike = node.header.raw.trim().match(DATE_LIKE);
+				if (dateLike) {
+					warnings.push(invalidDateWarning(node.span.start.line, getIndentLength(node.header.raw), dateLike[0]));
+				}
+			}
+			if (!unformatted) {
+				warnings.push(...node.postings.flatMap(posting => findPostingWarnings(posting, styles)));
+			}
+			return warnings;
+		}
+		case 'directive': {
+			// A line starting with a month or day out of range is parsed as a directive
+			const dateLike = node.keyword.match(DATE_LIKE);
+			return dateLike ? [invalidDateWarning(node.span.start.line, getIndentLength(node.raw), dateLike[0])] : [];
+		}
+		case 'commentBlock':
+			return node.terminated ? [] : [{
+				line: node.span.start.line,
+				column: node.span.start.column,
+				code: 'unterminated-comment-block',
+				message: 'Comment block is not closed with "end comment"; everything after it is treated as a comment'
+			}];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Finds the lines of a journal the formatter had to guess at or could not read: postings
+ * with a single space before the amount, unindented or unreadable lines in transactions,
+ * `comment` blocks without `end comment`, and dates that do not exist. Postings in
+ * sections left as written by `; hledger-fmt: off` are not checked.
+ * @param journal The parsed journal
+ * @returns The warnings in line order
+ */
+export function findFormatterWarnings(journal: Journal): FormatterWarning[] {
+	const unformatted = findUnformattedNodes(journal);
+	const styles = collectCommodityStyles(journal);
+	return journal.nodes.flatMap(node => findNodeWarnings(node, unformatted.has(node), styles));
+}
@@ -0,0 +1,312 @@
+import type { SourcePosition } from './ast';
+
+/**
+ * A change to a run of whole lines, found by comparing a text with the text that replaces it.
+ * Offsets and line numbers refer to the original text
+ */
+export interface LineEdit {
+	/** Zero-based first line replaced, or the line the new lines are inserted before */
+	startLine: number;
+	/** Number of original lines replaced; 0 for an insertion */
+	deletedLineCount: number;
+	/** The new lines; empty for a deletion */
+	lines: string[];
+	/** Offset in the original text where the replaced text starts */
+	start: number;
+	/** Offset in the original text just past the replaced text */
+	end: number;
+	/** The text to put between `start` and `end` */
+	text: string;
+}
+
+interface Snake {
+	x: number;
+	y: number;
+	u: number;
+	v: number;
+}
+
+/**
+ * Finds the middle snake of the shortest edit script between `a[aStart..aEnd)` and
+ * `b[bStart..bEnd)` (Myers' linear space refinement), in coordinates relative to the starts
+ */
+function findMiddleSnake(a: Int32Array, aStart: number, aEnd: number, b: Int32Array, bStart: number, bEnd: number): Snake {
+	const n = aEnd - aStart;
+	const m = bEnd - bStart;
+	const delta = n - m;
+	const max = Math.ceil((n + m) / 2);
+	const offset = max + 1;
+	const forward = new Int32Array(2 * max + 3);
+	const backward = new Int32Array(2 * max + 3);
+
+	for (let d = 0; d <= max; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+				? forward[offset + k + 1]
+				: forward[offset + k - 1] + 1;
+			let y = x - k;
+			const startX = x;
+			const startY = y;
+			while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+				x++;
+				y++;
+			}
+			forward[offset + k] = x;
+
+			const reverseK = delta - k;
+			if (delta % 2 !== 0 && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+				return { x: startX, y: startY, u: x, v: y };
+			}
+		}
+
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+				? backward[offset + k + 1]
+				: backward[offset + k - 1] + 1;
+			let y = x - k;
+			const startX = x;
+			const startY = y;
+			while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+				x++;
+				y++;
+			}
+			backward[offset + k] = x;
+
+			const forwardK = delta - k;
+			if (delta % 2 === 0 && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+				return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+			}
+		}
+	}
+
+	// Unreachable: the paths always meet by the time d reaches max
+	return { x: 0, y: 0, u: 0, v: 0 };
+}
+
+/**
+ * Marks the lines of `a` to delete and the lines of `b` to insert to turn one range into the other
+ */
+function markDifferences(
+	a: Int32Array, aStart: number, aEnd: number,
+	b: Int32Array, bStart: number, bEnd: number,
+	deleted: boolean[], inserted: boolean[]
+): void {
+	while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+		aStart++;
+		bStart++;
+	}
+	while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+		aEnd--;
+		bEnd--;
+	}
+
+	if (aStart === aEnd || bStart === bEnd) {
+		deleted.fill(true, aStart, aEnd);
+		inserted.fill(true, bStart, bEnd);
+		return;
+	}
+
+	const snake = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+	markDifferences(a, aStart, aStart + snake.x, b, bStart, bStart + snake.y, deleted, inserted);
+	markDifferences(a, aStart + snake.u, aEnd, b, bStart + snake.v, bEnd, deleted, inserted);
+}
+
+/**
+ * Compares two texts line by line and returns the smallest set of line edits that turns
+ * the first into the second, so an editor can apply them without replacing unchanged lines
+ * @param original The text before the change
+ * @param modified The text after the change
+ * @returns Non-overlapping edits in document order; empty when the texts are equal
+ */
+export function computeLineEdits(original: string, modified: string): LineEdit[] {
+	if (original === modified) {
+		return [];
+	}
+
+	const a = original.split('\n');
+	const b = modified.split('\n');
+
+	// Compare lines by number rather than by text
+	const lineIds = new Map<string, number>();
+	const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+		let id = lineIds.get(line);
+		if (id === undefined) {
+			id = lineIds.size;
+			lineIds.set(line, id);
+		}
+		return id;
+	});
+	const deleted = new Array<boolean>(a.length).fill(false);
+	const inserted = new Array<boolean>(b.length).fill(false);
+	markDifferences(toIds(a), 0, a.length, toIds(b), 0, b.length, deleted, inserted);
+
+	const lineStarts: number[] = [];
+	let lineStart = 0;
+	for (const line of a) {
+		lineStarts.push(lineStart);
+		lineStart += line.length + 1;
+	}
+	const getLineEnd = (line: number) => lineStarts[line] + a[line].length;
+
+	const edits: LineEdit[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if ((i < a.length && deleted[i]) || (j < b.length && inserted[j])) {
+			const startLine = i;
+			const firstInserted = j;
+			while ((i < a.length && deleted[i]) || (j < b.length && inserted[j])) {
+				if (i < a.length && deleted[i]) {
+					i++;
+				} else {
+					j++;
+				}
+			}
+
+			const deletedLineCount = i - startLine;
+			const lines = b.slice(firstInserted, j);
+			if (deletedLineCount > 0 && lines.length > 0) {
+				edits.push({ startLine, deletedLineCount, lines, start: lineStarts[startLine], end: getLineEnd(i - 1), text: lines.join('\n') });
+			} else if (deletedLineCount > 0) {
+				// Take a line break with the deleted lines: the one after them, or before them at the end of the text
+				const start = i < a.length || startLine === 0 ? lineStarts[startLine] : getLineEnd(startLine - 1);
+				const end = i < a.length ? lineStarts[i] : original.length;
+				edits.push({ startLine, deletedLineCount, lines, start, end, text: '' });
+			} else {
+				const atEnd = startLine === a.length;
+				const start = atEnd ? original.length : lineStarts[startLine];
+				const text = atEnd ? `\n${lines.join('\n')}` : `${lines.join('\n')}\n`;
+				edits.push({ startLine, deletedLineCount, lines, start, end: start, text });
+			}
+			continue;
+		}
+		i++;
+		j++;
+	}
+
+	return edits;
+}
+
+/**
+ * Applies line edits to the text they were computed from
+ * @param original The text passed to `computeLineEdits`
+ * @param edits The edits it returned
+ * @returns The modified text
+ */
+export function applyLineEdits(original: string, edits: LineEdit[]): string {
+	let result = '';
+	let offset = 0;
+	for (const edit of edits) {
+		result += original.slice(offset, edit.start) + edit.text;
+		offset = edit.end;
+	}
+	return result + original.slice(offset);
+}
+
+function normalizeLine(line: string): string {
+	return line.trim().replace(/\s+/g, ' ');
+}
+
+// How many lines around a line to compare when deciding which copy of it a position was on
+const MATCH_CONTEXT_LINES = 20;
+
+/**
+ * Counts the lines directly above and below two lines that match, ignoring whitespace
+ */
+function countMatchingContext(originalLines: string[], originalLine: number, modifiedLines: string[], modifiedLine: number): number {
+	let count = 0;
+	for (const step of [-1, 1]) {
+		for (let distance = 1; distance <= MATCH_CONTEXT_LINES; distance++) {
+			const originalText = originalLines[originalLine + step * distance];
+			const modifiedText = modifiedLines[modifiedLine + step * distance];
+			if (originalText === undefined || originalText !== modifiedText) {
+				break;
+			}
+			count++;
+		}
+	}
+	return count;
+}
+
+/**
+ * Finds the column in a changed line that sits at the same place among its non-whitespace
+ * characters as `column` does in the original line
+ */
+function mapColumn(originalText: string, column: number, modifiedText: string): number {
+	if (normalizeLine(originalText) !== normalizeLine(modifiedText)) {
+		return Math.min(column, modifiedText.length);
+	}
+
+	const before = originalText.slice(0, column).replace(/\s/g, '').length;
+	const onCharacter = column < originalText.length && /\S/.test(originalText[column]);
+	let seen = 0;
+	for (let index = 0; index < modifiedText.length; index++) {
+		if (/\s/.test(modifiedText[index])) {
+			continue;
+		}
+		if (seen === before && onCharacter) {
+			return index;
+		}
+		seen++;
+		if (seen === before && !onCharacter) {
+			return index + 1;
+		}
+	}
+	return before === 0 ? Math.min(column, modifiedText.length) : modifiedText.length;
+}
+
+/**
+ * Maps a position in a text to the matching position after line edits are applied. A line
+ * follows its content (ignoring whitespace) to the place where the lines around it match
+ * best, falling back to where the edits put it, so a cursor stays on the same posting
+ * after formatting or sorting
+ * @param original The text passed to `computeLineEdits`
+ * @param edits The edits it returned
+ * @param position A position in the original text
+ * @returns The position in the modified text
+ */
+export function mapPosition(original: string, edits: LineEdit[], position: SourcePosition): SourcePosition {
+	if (edits.length === 0) {
+		return position;
+	}
+
+	// Where the edits put the line: shifted past the edits above it, or at the same place
+	// in the lines that replace it
+	let delta = 0;
+	let editedLine: number | null = null;
+	for (const edit of edits) {
+		if (position.line < edit.startLine) {
+			break;
+		}
+		if (position.line < edit.startLine + edit.deletedLineCount) {
+			editedLine = edit.startLine + delta + Math.min(position.line - edit.startLine, Math.max(0, edit.lines.length - 1));
+			break;
+		}
+		delta += edit.lines.length - edit.deletedLineCount;
+	}
+	const mappedLine = editedLine ?? position.line + delta;
+
+	const originalLines = original.split('\n');
+	const modifiedLines = applyLineEdits(original, edits).split('\n');
+	const normalizedOriginal = originalLines.map(normalizeLine);
+	const normalizedModified = modifiedLines.map(normalizeLine);
+	const target = normalizedOriginal[position.line];
+
+	// Prefer the copy of the line with the most matching lines around it, then the mapped
+	// line, then the nearest one
+	let line = Math.min(mappedLine, modifiedLines.length - 1);
+	let bestScore = -1;
+	normalizedModified.forEach((text, index) => {
+		if (text !== target) {
+			return;
+		}
+		const score = countMatchingContext(normalizedOriginal, position.line, normalizedModified, index);
+		const closer = index === mappedLine || (line !== mappedLine && Math.abs(index - mappedLine) < Math.abs(line - mappedLine));
+		if (score > bestScore || (score === bestScore && closer)) {
+			line = index;
+			bestScore = score;
+		}
+	});
+
+	return { line, column: mapColumn(originalLines[position.line], position.column, modifiedLines[line]) };
+}
@@ -1,703 +1,280 @@
-export type AmountAlignment = 'fixedColumn' | 'widest';
-export type NegativeCommodityStyle = 'signBeforeSymbol' | 'symbolBeforeSign';
-export type DateFormatStyle = 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'YYYY.MM.DD';
-export type CommentCharacter = ';' | '#' | '*';
-
-export interface FormatterOptions {
-	amountColumnPosition: number;
-	amountAlignment: AmountAlignment;
-	indentationWidth: number;
-	negativeCommodityStyle: NegativeCommodityStyle;
-	dateFormat: DateFormatStyle;
-	commentCharacter: CommentCharacter;
-}
-
-export const DEFAULT_FORMATTER_OPTIONS: FormatterOptions = {
-	amountColumnPosition: 42,
-	amountAlignment: 'widest',
-	indentationWidth: 4,
-	negativeCommodityStyle: 'symbolBeforeSign',
-	dateFormat: 'YYYY-MM-DD',
-	commentCharacter: ';'
-};
-
-export const TRANSACTION_DATE_PREFIX = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})/;
-
-export interface PostingDetail {
-	trimmed: string;
-	account: string | null;
-	amount: string | null;
-}
-
-export interface DateComponents {
-	year: number;
-	month: number;
-	day: number;
-}
-
-export function normalizeFormatterOptions(optionsOrColumn?: number | Partial<FormatterOptions>): FormatterOptions {
-	const merged: Partial<FormatterOptions> = typeof optionsOrColumn === 'number'
-		? { ...DEFAULT_FORMATTER_OPTIONS, amountColumnPosition: optionsOrColumn }
-		: { ...DEFAULT_FORMATTER_OPTIONS, ...(optionsOrColumn ?? {}) };
-
-	const amountColumnPosition = typeof merged.amountColumnPosition === 'number'
-		? Math.max(0, Math.floor(merged.amountColumnPosition))
-		: DEFAULT_FORMATTER_OPTIONS.amountColumnPosition;
-
-	const indentationWidth = typeof merged.indentationWidth === 'number'
-		? Math.max(0, Math.floor(merged.indentationWidth))
-		: DEFAULT_FORMATTER_OPTIONS.indentationWidth;
-
-	const amountAlignment: AmountAlignment = merged.amountAlignment === 'widest' ? 'widest' : 'fixedColumn';
-	const negativeCommodityStyle: NegativeCommodityStyle = merged.negativeCommodityStyle === 'symbolBeforeSign'
-		? 'symbolBeforeSign'
-		: 'signBeforeSymbol';
-	const dateFormat: DateFormatStyle = merged.dateFormat === 'YYYY/MM/DD'
-		? 'YYYY/MM/DD'
-		: merged.dateFormat === 'YYYY.MM.DD'
-			? 'YYYY.MM.DD'
-			: 'YYYY-MM-DD';
-	const commentCharacter: CommentCharacter = merged.commentCharacter === '#'
-		? '#'
-		: merged.commentCharacter === '*'
-			? '*'
-			: ';';
-
-	return {
-		amountColumnPosition,
-		amountAlignment,
-		indentationWidth,
-		negativeCommodityStyle,
-		dateFormat,
-		commentCharacter
-	};
-}
+import type { DateComponents, Journal, JournalNode, PeriodicTransactionNode, PostingType, TransactionNode } from './ast';
+import {
+	collectCommodityStyles,
+	findCommodityStyle,
+	formatAmountValue,
+	getBalancingValue,
+	getDefaultCommodityStyle,
+	inferCommodityStyle,
+	parsePostingAmount,
+	type CommodityStyles
+} from './amount';
+import { addDecimals, decimalSign, negateDecimal, type Decimal } from './decimal';
+import { findFormatterWarnings, type FormatterWarning } from './diagnostics';
+import { readSourceText, writeSourceText } from './newline';
+import { getCommodityLayout, getIndentString, normalizeFormatterOptions, normalizeSortOptions, type FormatterOptions, type SortOptions } from './options';
+import {
+	extractPostingDetail,
+	getDirectiveYear,
+	isMetadataPostingAccount,
+	isMetadataPostingLine,
+	isTransactionLikeNode,
+	parseCommentLine,
+	parseJournal,
+	splitPostingComment
+} from './parser';
+import { findUnformattedNodes } from './pragmas';
+import { formatAmountWithStyle, formatJournalNodes, formatPostingAccount, getAmountAnchorOffset, printJournal, printNode } from './printer';
+import { getDisplayWidth } from './width';
 
-/**
- * Checks if a line is a comment (starts with #, ;, or *)
- * @param line The line to check (should be trimmed)
- * @returns true if the line is a comment
- */
-export function isCommentLine(line: string): boolean {
-	const trimmed = line.trim();
-	return trimmed.startsWith(';') || trimmed.startsWith('#') || trimmed.startsWith('*');
+function toIsoDate(components: DateComponents): string {
+	const year = components.year.toString().padStart(4, '0');
+	const month = components.month.toString().padStart(2, '0');
+	const day = components.day.toString().padStart(2, '0');
+	return `${year}-${month}-${day}`;
 }
 
-export function isMetadataPostingLine(trimmedLine: string): boolean {
-	if (!trimmedLine) {
-		return false;
-	}
-
-	// Ignore actual postings which always separate account and amount with two spaces or tabs
-	if (/\s{2,}|\t/.test(trimmedLine)) {
-		return false;
-	}
-
-	// Treat key/value metadata (e.g., "project: xyz" or "note: something") as metadata.
-	// Matches keys made of word characters, dots, or hyphens, followed by a colon and optional value that
-	// either ends immediately or starts with single whitespace (no amount-style spacing).
-	return /^[A-Za-z0-9_.-]+:(\s+.*)?$/.test(trimmedLine);
+function getLeadingWhitespaceLength(value: string): number {
+	return value.length - value.trimStart().length;
 }
 
-export function isMetadataPostingAccount(account: string | null | undefined): boolean {
-	if (!account) {
-		return false;
+function findAccountEndIndex(line: string, account: string, indentLength: number): number {
+	const accountIndex = line.indexOf(account, indentLength);
+	if (accountIndex !== -1) {
+		const accountEnd = accountIndex + account.length;
+		// Include the closing bracket of a virtual posting
+		return /[)\]]/.test(line.charAt(accountEnd)) ? accountEnd + 1 : accountEnd;
 	}
-	const trimmedAccount = account.trim();
-	return trimmedAccount.endsWith(':') || /:\s/.test(trimmedAccount);
-}
-
-/**
- * Checks if a line starts a comment block
- * @param line The line to check (should be trimmed)
- * @returns true if the line starts a comment block
- */
-function isCommentBlockStart(line: string): boolean {
-	return line.trim() === 'comment';
+	return indentLength + account.length;
 }
 
 /**
- * Checks if a line ends a comment block
- * @param line The line to check (should be trimmed)
- * @returns true if the line ends a comment block
+ * Finds the display column where the account of a posting line ends
  */
-function isCommentBlockEnd(line: string): boolean {
-	return line.trim() === 'end comment';
+function findAccountEndColumn(line: string, account: string, indentLength: number, tabWidth: number): number {
+	const accountEnd = findAccountEndIndex(line, account, indentLength);
+	if (line.indexOf(account, indentLength) !== -1) {
+		return getDisplayWidth(line.slice(0, accountEnd), tabWidth);
+	}
+	return getDisplayWidth(line.slice(0, indentLength), tabWidth) + getDisplayWidth(account);
 }
 
 /**
- * Extracts the comment character and content from a comment line
- * @param line The comment line
- * @returns An object with the comment character, leading whitespace, and content, or null if not a comment
+ * Finds the display column of an existing amount's anchor (see getAmountAnchorOffset()) in a posting line
+ * @param accountEnd The index in the line where the account ends
+ * @returns The column, or null if the line has no amount after the account
  */
-function parseCommentLine(line: string): { char: CommentCharacter; leadingWhitespace: string; content: string } | null {
-	const match = line.match(/^(\s*)([#;*])\s?(.*)$/);
-	if (!match) {
+function findAnchorColumnInLine(line: string, accountEnd: number, options: FormatterOptions, styles: CommodityStyles | null): number | null {
+	const afterAccount = line.slice(accountEnd);
+	const amountText = splitPostingComment(afterAccount).content.trim();
+	if (!/\d/.test(amountText)) {
 		return null;
 	}
-
-	const [, leadingWhitespace, char, content] = match;
-	return {
-		char: char as CommentCharacter,
-		leadingWhitespace,
-		content
-	};
+	const amountStart = accountEnd + afterAccount.indexOf(amountText);
+	return getDisplayWidth(line.slice(0, amountStart), options.tabWidth) + getAmountAnchorOffset(amountText, options.amountAlignment, styles);
 }
 
-export function isTransactionHeaderLine(line: string): boolean {
-	const trimmed = line.trim();
-	return extractDateComponents(trimmed) !== null;
-}
-
-export function extractPostingDetail(line: string): PostingDetail {
-	const trimmed = line.trim();
-	if (!trimmed) {
-		return { trimmed, account: null, amount: null };
-	}
-
-	const accountAmountSeparator = /\s{2,}|\t+/;
-	const parts = trimmed.split(accountAmountSeparator);
-
-	if (parts.length >= 2) {
-		return {
-			trimmed,
-			account: parts[0].trim(),
-			amount: parts.slice(1).join(' ').trim()
-		};
-	}
-
-	const fallbackMatch = trimmed.match(/^(\S+(?:\s+\S+)*?)(?:\s*)(\$-?\d+(?:,\d+)*(?:\.\d+)?|\-\$\d+(?:,\d+)*(?:\.\d+)?|\d+(?:,\d+)*(?:\.\d+)?)(.*)$/);
-	if (fallbackMatch) {
-		const account = fallbackMatch[1].trim();
-		const numericPart = fallbackMatch[2].trim();
-		const rest = fallbackMatch[3] ?? '';
-		const amount = `${numericPart}${rest}`.trim();
-		return { trimmed, account, amount };
-	}
-
-	return { trimmed, account: trimmed, amount: null };
-}
-
-export function extractDateComponents(text: string): { components: DateComponents; raw: string } | null {
-	const match = text.match(TRANSACTION_DATE_PREFIX);
-	if (!match) {
-		return null;
-	}
-
-	const year = Number(match[1]);
-	const month = Number(match[3]);
-	const day = Number(match[4]);
-
-	if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
-		return null;
-	}
-
-	if (month < 1 || month > 12 || day < 1 || day > 31) {
-		return null;
-	}
-
-	return {
-		components: { year, month, day },
-		raw: match[0]
-	};
-}
-
-function formatDate(components: DateComponents, format: DateFormatStyle): string {
-	const year = components.year.toString().padStart(4, '0');
-	const month = components.month.toString().padStart(2, '0');
-	const day = components.day.toString().padStart(2, '0');
-
-	switch (format) {
-		case 'YYYY/MM/DD':
-			return `${year}/${month}/${day}`;
-		case 'YYYY.MM.DD':
-			return `${year}.${month}.${day}`;
-		case 'YYYY-MM-DD':
-		default:
-			return `${year}-${month}-${day}`;
-	}
-}
-
-function toIsoDate(components: DateComponents): string {
-	const year = components.year.toString().padStart(4, '0');
-	const month = components.month.toString().padStart(2, '0');
-	const day = components.day.toString().padStart(2, '0');
-	return `${year}-${month}-${day}`;
-}
-
-function formatAmountWithStyle(amount: string | null, style: NegativeCommodityStyle): { formatted: string | null } {
-	if (!amount) {
-		return { formatted: null };
-	}
-
-	let formatted = amount;
-	if (style === 'signBeforeSymbol') {
-		const symbolLeadingRegex = /^(\$|€|£|¥)-(\d+(?:,\d+)*(?:\.\d+)?)(.*)$/;
-		formatted = formatted.replace(symbolLeadingRegex, '-$1$2$3');
-	} else {
-		const signLeadingRegex = /^-(\$|€|£|¥)(\d+(?:,\d+)*(?:\.\d+)?)(.*)$/;
-		formatted = formatted.replace(signLeadingRegex, '$1-$2$3');
+/**
+ * Prints nodes as written, dropping trailing blank lines
+ */
+function printTrimmedNodes(nodes: JournalNode[]): string {
+	let end = nodes.length;
+	while (end > 0 && nodes[end - 1].type === 'blankRun') {
+		end--;
 	}
-
-	return { formatted };
+	return nodes.slice(0, end).map(printNode).join('\n');
 }
 
-function getDigitsPrefixLength(amount: string): number {
-	const trimmedAmount = amount.trimStart();
-	const matchIndex = trimmedAmount.search(/[0-9]/);
-	return matchIndex === -1 ? trimmedAmount.length : matchIndex;
-}
+// ── Public API ──────────────────────────────────────────────────────────
 
 /**
- * Formats a transaction header by normalizing spaces between date, status marker, and description
- * @param headerLine The transaction header line
- * @returns Formatted transaction header line
+ * Formats a hledger journal text by aligning account names and amounts
+ * @param text The original journal text
+ * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
+ * @returns The formatted journal text
  */
-function formatTransactionHeader(headerLine: string, options: FormatterOptions): string {
-	const commentRegex = /\s*;.*$/;
-	const commentIndex = headerLine.search(commentRegex);
-	const commentPart = commentIndex !== -1 ? headerLine.slice(commentIndex) : '';
-	const headerWithoutComment = commentIndex !== -1 ? headerLine.slice(0, commentIndex) : headerLine;
-	const trimmedHeader = headerWithoutComment.trim();
-	if (!trimmedHeader) {
-		return headerLine;
-	}
-
-	const dateInfo = extractDateComponents(trimmedHeader);
-	if (!dateInfo) {
-		return headerLine;
-	}
-
-	const { components, raw } = dateInfo;
-	let remainder = trimmedHeader.slice(raw.length).trimStart();
-	let status = '';
-	if (remainder.startsWith('*') || remainder.startsWith('!')) {
-		status = remainder.charAt(0);
-		remainder = remainder.slice(1).trimStart();
-	}
-
-	let code = '';
-	if (remainder.startsWith('(')) {
-		const codeMatch = remainder.match(/^\([^)]*\)/);
-		if (codeMatch) {
-			code = codeMatch[0];
-			remainder = remainder.slice(codeMatch[0].length).trimStart();
-		}
-	}
-
-	const description = remainder;
-	const formattedDate = formatDate(components, options.dateFormat);
-	const segments: string[] = [formattedDate];
-	if (status) {
-		segments.push(status);
-	}
-	if (code) {
-		segments.push(code);
-	}
-	if (description) {
-		segments.push(description);
-	}
-
-	// Transaction headers should always start at column 0 (no leading whitespace)
-	const baseHeader = segments.join(' ');
-	if (!commentPart) {
-		return baseHeader;
-	}
-
-	return commentPart.startsWith(';') ? `${baseHeader}${commentPart}` : `${baseHeader}${commentPart}`;
+export function formatHledgerJournal(text: string, optionsOrColumn?: number | Partial<FormatterOptions>): string {
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	const source = readSourceText(text);
+	return writeSourceText(printJournal(parseJournal(source.text), options), source, options.lineEnding);
 }
 
 /**
- * Formats a single transaction by aligning account names and amounts
- * @param lines Lines of a transaction including header and postings
- * @param options Formatter options to drive indentation and amount alignment
- * @returns Formatted transaction lines
+ * The result of formatting a journal along with the lines the formatter was unsure about
  */
-function formatTransaction(lines: string[], options: FormatterOptions): string[] {
-	if (lines.length <= 1) {
-		return lines;
-	}
-
-	const headerLine = lines[0];
-	const formattedHeader = formatTransactionHeader(headerLine, options);
-
-	const formattedLines: string[] = [formattedHeader];
-	const postingLines: string[] = [];
-
-	for (let i = 1; i < lines.length; i++) {
-		if (!isCommentLine(lines[i])) {
-			postingLines.push(lines[i]);
-		} else {
-			formattedLines.push(lines[i]);
-		}
-	}
-
-	if (postingLines.length === 0) {
-		return formattedLines;
-	}
-
-	const indentWidth = Math.max(0, options.indentationWidth);
-	const indentStr = ' '.repeat(indentWidth);
-	const postingDetails = postingLines.map(extractPostingDetail);
-	const preparedPostings = postingDetails.map(detail => {
-		if (!detail.account) {
-			return {
-				detail,
-				formattedAmount: null as string | null,
-				digitsPrefixLength: 0
-			};
-		}
-
-		const { formatted: amount } = formatAmountWithStyle(
-			detail.amount && detail.amount.length > 0 ? detail.amount : null,
-			options.negativeCommodityStyle
-		);
-
-		if (!amount) {
-			return {
-				detail,
-				formattedAmount: null,
-				digitsPrefixLength: 0
-			};
-		}
-
-		const normalizedAmount = amount.trim();
-		return {
-			detail,
-			formattedAmount: normalizedAmount,
-			digitsPrefixLength: getDigitsPrefixLength(normalizedAmount)
-		};
-	});
-
-	const referenceAccountLength = preparedPostings.reduce((max, prepared) => {
-		const account = prepared.detail.account;
-		if (account) {
-			return Math.max(max, account.length);
-		}
-		return max;
-	}, 0);
-
-	let baseDigitsColumn: number;
-	if (options.amountAlignment === 'widest') {
-		const digitColumnCandidates = preparedPostings
-			.filter(prepared => prepared.detail.account && prepared.formattedAmount)
-			.map(prepared => indentWidth + (prepared.detail.account as string).length + prepared.digitsPrefixLength + 2);
-		const fallbackColumn = indentWidth + referenceAccountLength + 2;
-		baseDigitsColumn = digitColumnCandidates.length > 0 ? Math.max(fallbackColumn, ...digitColumnCandidates) : fallbackColumn;
-	} else {
-		baseDigitsColumn = options.amountColumnPosition;
-	}
-
-	for (const prepared of preparedPostings) {
-		const detail = prepared.detail;
-		if (!detail.account) {
-			formattedLines.push(`${indentStr}${detail.trimmed}`);
-			continue;
-		}
-
-		const amount = prepared.formattedAmount;
-
-		if (!amount) {
-			formattedLines.push(`${indentStr}${detail.trimmed}`);
-			continue;
-		}
-
-		const digitsPrefixLength = prepared.digitsPrefixLength;
-		const paddingTarget = baseDigitsColumn - (indentWidth + detail.account.length) - digitsPrefixLength;
-		const paddingNeeded = Math.max(2, paddingTarget);
-		formattedLines.push(`${indentStr}${detail.account}${' '.repeat(paddingNeeded)}${amount}`);
-	}
-
-	return formattedLines;
+export interface FormatReport {
+	/** The formatted journal text */
+	text: string;
+	/** Warnings about the original text, in line order */
+	warnings: FormatterWarning[];
 }
 
 /**
- * Parses journal text into individual transactions with their dates
- * Also returns leading content (comments/empty lines before first transaction)
- * @param text The journal text to parse
- * @returns Object with leading content and array of transactions
+ * Formats a hledger journal text like `formatHledgerJournal`, and reports the postings,
+ * comment blocks and dates it had to guess at or could not read
+ * @param text The original journal text
+ * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
+ * @returns The formatted text and the warnings, with line numbers of the original text
  */
-function parseTransactionsWithLeading(text: string): {
-	leadingContent: string;
-	transactions: Array<{ date: string; content: string }>
-} {
-	const lines = text.split('\n');
-	const transactions: Array<{ date: string; content: string }> = [];
-
-	let currentTransaction: string[] = [];
-	let currentDate = '';
-	let leadingLines: string[] = [];
-	let inTransaction = false;
-	let hasSeenTransaction = false;
-
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const trimmed = line.trim();
-		const dateInfo = extractDateComponents(trimmed);
-
-		if (dateInfo) {
-			hasSeenTransaction = true;
-			// If we had a previous transaction, save it
-			if (inTransaction && currentTransaction.length > 0) {
-				transactions.push({
-					date: currentDate,
-					content: currentTransaction.join('\n')
-				});
-			}
-
-			// Start new transaction
-			currentDate = toIsoDate(dateInfo.components);
-			currentTransaction = [line];
-			inTransaction = true;
-		} else if (inTransaction) {
-			// Check if this is an empty line
-			if (!line.trim()) {
-				// Empty line might end the transaction
-				// But we need to check if the next non-empty line is a new transaction
-				let nextTransactionFound = false;
-				for (let j = i + 1; j < lines.length; j++) {
-					const lookaheadTrimmed = lines[j].trim();
-					if (lookaheadTrimmed) {
-						if (isTransactionHeaderLine(lookaheadTrimmed)) {
-							nextTransactionFound = true;
-						}
-						break;
-					}
-				}
-
-				if (nextTransactionFound) {
-					// End current transaction
-					transactions.push({
-						date: currentDate,
-						content: currentTransaction.join('\n')
-					});
-					currentTransaction = [];
-					inTransaction = false;
-				} else {
-					// Empty line is part of the transaction
-					currentTransaction.push(line);
-				}
-			} else {
-				// Part of the current transaction
-				currentTransaction.push(line);
-			}
-		} else if (!hasSeenTransaction) {
-			// Not in a transaction and haven't seen any transactions yet
-			// These are leading lines to preserve at the beginning
-			leadingLines.push(line);
-		}
-	}
-
-	// Save the last transaction if any
-	if (inTransaction && currentTransaction.length > 0) {
-		transactions.push({
-			date: currentDate,
-			content: currentTransaction.join('\n')
-		});
-	}
-
-	// Remove trailing empty lines from leading content
-	while (leadingLines.length > 0 && !leadingLines[leadingLines.length - 1].trim()) {
-		leadingLines.pop();
-	}
-
+export function formatHledgerJournalWithReport(text: string, optionsOrColumn?: number | Partial<FormatterOptions>): FormatReport {
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	const source = readSourceText(text);
+	const journal = parseJournal(source.text);
 	return {
-		leadingContent: leadingLines.join('\n'),
-		transactions
+		text: writeSourceText(printJournal(journal, options), source, options.lineEnding),
+		warnings: findFormatterWarnings(journal)
 	};
 }
 
 /**
- * Helper function for backwards compatibility
+ * A replacement for a run of whole lines
  */
-function parseTransactions(text: string): Array<{ date: string; content: string }> {
-	return parseTransactionsWithLeading(text).transactions;
+export interface LineRangeEdit {
+	/** Zero-based first line replaced */
+	startLine: number;
+	/** Zero-based last line replaced, inclusive */
+	endLine: number;
+	/** The replacement lines, joined with the journal's line ending */
+	text: string;
 }
 
-function getLeadingWhitespaceLength(value: string): number {
-	return value.length - value.trimStart().length;
-}
-
-function findAccountEndColumn(line: string, account: string, indentLength: number): number {
-	const accountIndex = line.indexOf(account, indentLength);
-	if (accountIndex !== -1) {
-		return accountIndex + account.length;
-	}
-	return indentLength + account.length;
-}
-
-function findDigitsColumnInLine(line: string, startIndex: number): number | null {
-	for (let i = startIndex; i < line.length; i++) {
-		const char = line[i];
-		if (char === ';') {
-			break;
-		}
-		const code = line.charCodeAt(i);
-		if (code >= 48 && code <= 57) {
-			return i;
-		}
+/**
+ * Formats only the entries, directives and comment blocks that intersect a line range,
+ * leaving the rest of the journal and the blank lines between entries as written
+ * @param text The original journal text
+ * @param startLine Zero-based first line of the range
+ * @param endLine Zero-based last line of the range, inclusive
+ * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
+ * @returns The edit covering the formatted nodes, or null when they need no changes
+ */
+export function formatHledgerJournalRange(
+	text: string,
+	startLine: number,
+	endLine: number,
+	optionsOrColumn?: number | Partial<FormatterOptions>
+): LineRangeEdit | null {
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	const source = readSourceText(text);
+	const journal = parseJournal(source.text);
+	const nodes = journal.nodes.filter(node => node.type !== 'blankRun' && node.span.end.line >= startLine && node.span.start.line <= endLine);
+	if (nodes.length === 0) {
+		return null;
 	}
-	return null;
-}
 
-function parseNumber(numStr: string): number {
-	// Handle European format with comma as decimal separator
-	if (numStr.includes(',') && !numStr.includes('.')) {
-		return parseFloat(numStr.replace(',', '.'));
+	const formatted = formatJournalNodes(journal, nodes, options);
+	const first = nodes[0];
+	const last = nodes[nodes.length - 1];
+	const lines = journal.nodes
+		.slice(journal.nodes.indexOf(first), journal.nodes.indexOf(last) + 1)
+		.flatMap(node => formatted.get(node) ?? printNode(node).split('\n'));
+	const replaced = source.text.split('\n').slice(first.span.start.line, last.span.end.line + 1);
+	if (lines.join('\n') === replaced.join('\n')) {
+		return null;
 	}
 
-	return parseFloat(numStr.replace(/,/g, ''));
+	// Only an edit from the first line carries the byte order mark
+	const editSource = first.span.start.line === 0 ? source : { ...source, hasByteOrderMark: false };
+	return {
+		startLine: first.span.start.line,
+		endLine: last.span.end.line,
+		text: writeSourceText(lines.join('\n'), editSource)
+	};
 }
 
-// ── Public API ──────────────────────────────────────────────────────────
+interface SortEntry {
+	date: string | null;
+	nodes: JournalNode[];
+}
 
 /**
- * Formats a hledger journal text by aligning account names and amounts
- * @param text The original journal text
- * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
- * @returns The formatted journal text
+ * A stretch of the journal sorted on its own. A year directive starts a new section
+ * so year-less dates never move away from the directive that gives them their year,
+ * and nodes under a formatter pragma start one so they stay where they are.
  */
-export function formatHledgerJournal(text: string, optionsOrColumn?: number | Partial<FormatterOptions>): string {
-	const options = normalizeFormatterOptions(optionsOrColumn);
-	const lines = text.split('\n');
-	const formattedLines: string[] = [];
-
-	let inTransaction = false;
-	let transactionLines: string[] = [];
-	let lastWasTransaction = false;
-	let hasContent = false;
-	let inCommentBlock = false;
-
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const trimmed = line.trim();
-
-		// Handle comment blocks
-		if (isCommentBlockStart(trimmed)) {
-			inCommentBlock = true;
-			if (inTransaction) {
-				formattedLines.push(...formatTransaction(transactionLines, options));
-				transactionLines = [];
-				inTransaction = false;
-			}
-			formattedLines.push(line);
-			lastWasTransaction = false;
-			hasContent = true;
-			continue;
-		}
+interface SortSection {
+	leadingNodes: JournalNode[];
+	entries: SortEntry[];
+}
 
-		if (inCommentBlock) {
-			formattedLines.push(line);
-			if (isCommentBlockEnd(trimmed)) {
-				inCommentBlock = false;
-			}
-			continue;
+function splitSortSections(journal: Journal): SortSection[] {
+	const unformatted = findUnformattedNodes(journal);
+	const sections: SortSection[] = [{ leadingNodes: [], entries: [] }];
+	for (const node of journal.nodes) {
+		let section = sections[sections.length - 1];
+		const pinned = unformatted.has(node);
+		if ((pinned || (node.type === 'directive' && getDirectiveYear(node) !== null)) && section.entries.length > 0) {
+			section = { leadingNodes: [], entries: [] };
+			sections.push(section);
 		}
 
-		if (!trimmed) {
-			if (inTransaction) {
-				formattedLines.push(...formatTransaction(transactionLines, options));
-				transactionLines = [];
-				inTransaction = false;
-				lastWasTransaction = true;
-				hasContent = true;
-				formattedLines.push('');
-			} else if (!lastWasTransaction && hasContent) {
-				formattedLines.push(line);
-			}
+		if (pinned) {
+			section.leadingNodes.push(node);
 			continue;
 		}
 
-		if (isCommentLine(trimmed)) {
-			if (inTransaction) {
-				transactionLines.push(line);
-			} else {
-				formattedLines.push(line);
-				lastWasTransaction = false;
-				hasContent = true;
-			}
-			continue;
-		}
-
-		if (isTransactionHeaderLine(trimmed)) {
-			if (inTransaction) {
-				formattedLines.push(...formatTransaction(transactionLines, options));
-				formattedLines.push('');
-				transactionLines = [];
-			}
-
-			inTransaction = true;
-			transactionLines.push(line);
-			lastWasTransaction = false;
-			hasContent = true;
-		} else if (inTransaction) {
-			transactionLines.push(line);
+		// Everything before the first entry stays at the top; anything after an entry
+		// (comments, directives) travels with it
+		if (isTransactionLikeNode(node)) {
+			const date = node.type === 'transaction' ? toIsoDate(node.header.date.components) : null;
+			section.entries.push({ date, nodes: [node] });
+		} else if (section.entries.length > 0) {
+			section.entries[section.entries.length - 1].nodes.push(node);
 		} else {
-			formattedLines.push(line);
-			lastWasTransaction = false;
-			hasContent = true;
+			section.leadingNodes.push(node);
 		}
 	}
+	return sections;
+}
 
-	if (inTransaction && transactionLines.length > 0) {
-		formattedLines.push(...formatTransaction(transactionLines, options));
-		formattedLines.push('');
-	}
-
-	while (formattedLines.length > 0 && formattedLines[0] === '') {
-		formattedLines.shift();
-	}
+function sortEntries(entries: SortEntry[], options: SortOptions): SortEntry[] {
+	// Sort transactions by date; periodic transactions and auto posting rules either keep
+	// their position among the entries or move ahead of all dated transactions
+	const datedEntries = entries.filter((entry): entry is { date: string; nodes: JournalNode[] } => entry.date !== null);
+	datedEntries.sort((a, b) => {
+		if (a.date < b.date) { return -1; }
+		if (a.date > b.date) { return 1; }
+		return 0;
+	});
 
-	while (formattedLines.length > 1 && formattedLines[formattedLines.length - 1] === '' && formattedLines[formattedLines.length - 2] === '') {
-		formattedLines.pop();
+	if (options.undatedEntryPlacement === 'top') {
+		return [...entries.filter(entry => entry.date === null), ...datedEntries];
 	}
 
-	return formattedLines.join('\n');
+	let nextDated = 0;
+	return entries.map(entry => entry.date === null ? entry : datedEntries[nextDated++]);
 }
 
 /**
- * Sorts journal entries by date
+ * Sorts journal entries by date. Year-less dates are ordered by the year of the most
+ * recent year directive, and entries are never moved across a year directive.
  * @param text The original journal text
+ * @param sortOptions Where periodic transactions and auto posting rules should go
  * @returns The journal text with entries sorted by date
  */
-export function sortHledgerJournal(text: string): string {
-	const parsed = parseTransactionsWithLeading(text);
-
-	// Sort transactions by date
-	parsed.transactions.sort((a, b) => {
-		if (a.date < b.date) { return -1; }
-		if (a.date > b.date) { return 1; }
-		return 0;
-	});
-
-	// Rebuild the text from sorted transactions
-	const result: string[] = [];
-
-	// Add leading content if any
-	if (parsed.leadingContent) {
-		result.push(parsed.leadingContent);
-		if (parsed.transactions.length > 0) {
-			result.push(''); // Add empty line between leading content and transactions
+export function sortHledgerJournal(text: string, sortOptions?: Partial<SortOptions>): string {
+	const options = normalizeSortOptions(sortOptions);
+	const source = readSourceText(text);
+	const sections = splitSortSections(parseJournal(source.text));
+
+	// Rebuild the text from sorted transactions, every block separated by a single empty line
+	const blocks: string[] = [];
+	for (const section of sections) {
+		const leadingContent = printTrimmedNodes(section.leadingNodes);
+		if (leadingContent) {
+			blocks.push(leadingContent);
 		}
-	}
-
-	// Add sorted transactions
-	for (let i = 0; i < parsed.transactions.length; i++) {
-		result.push(parsed.transactions[i].content);
-
-		// Add empty line between transactions, but not after the last one
-		if (i < parsed.transactions.length - 1 && !parsed.transactions[i].content.endsWith('\n\n')) {
-			result.push('');
+		for (const entry of sortEntries(section.entries, options)) {
+			blocks.push(printTrimmedNodes(entry.nodes));
 		}
 	}
 
 	// Handle case where original text ended with a newline
-	let finalText = result.join('\n');
-	if (text.endsWith('\n') && !finalText.endsWith('\n')) {
+	let finalText = blocks.join('\n\n');
+	if (source.text.endsWith('\n') && !finalText.endsWith('\n')) {
 		finalText += '\n';
 	}
 
-	return finalText;
+	return writeSourceText(finalText, source);
 }
 
 /**
@@ -767,259 +344,301 @@ export function toggleCommentLines(text: string, startLine: number, endLine: num
 	return lines.join('\n');
 }
 
+interface BalancingPosting {
+	line: string;
+	amountText: string | null;
+	hasAmount: boolean;
+	amount: Decimal | null;
+	currency: string | null;
+	/** The account name, without status marker or brackets */
+	account: string | null;
+	/** The account as formatTransaction() writes it, with status marker and brackets */
+	accountText: string;
+	postingType: PostingType;
+}
+
+interface BalancingContext {
+	currentLineText?: string;
+	/** The cursor's index in `currentLineText` */
+	cursorColumn?: number;
+	/** The styles of the whole journal, from collectCommodityStyles() */
+	commodityStyles?: CommodityStyles;
+}
+
+const ZERO: Decimal = { units: 0n, scale: 0 };
+
 /**
- * Parses an amount string and extracts value and currency
- * @param amountStr Amount string (e.g., "$100.50", "-$50.00", "100.50 USD")
- * @returns Parsed amount or null if invalid
+ * Parses the postings of the transaction being edited
+ * @returns The postings that take part in balancing, or null if there is no transaction
  */
-export function parseAmount(amountStr: string): { value: number; currency: string } | null {
-	const trimmed = amountStr.trim();
-
-	// Try to match currency before number: $100, -$100, $-100, "US Dollar" 100, USD 100
-	const currencyFirstMatch = trimmed.match(/^(-)?("[^"]+"|[^\d\-+.@*;\t "{}=]+)\s*(-)?(\d+(?:,\d+)*(?:\.\d+)?)(.*)$/);
-	if (currencyFirstMatch) {
-		const sign1 = currencyFirstMatch[1];
-		const currency = currencyFirstMatch[2];
-		const sign2 = currencyFirstMatch[3];
-		const numericPart = currencyFirstMatch[4];
-
-		// Determine sign
-		const isNegative = sign1 === '-' || sign2 === '-';
-
-		// Parse numeric value (remove commas)
-		const value = parseNumber(numericPart);
-		if (isNaN(value)) {
-			return null;
-		}
-
-		return {
-			value: isNegative ? -value : value,
-			currency
-		};
+function parseBalancingPostings(transaction: { headerLine: number; lines: string[] }, styles: CommodityStyles | null): BalancingPosting[] | null {
+	// Periodic transactions must balance like regular ones; auto posting rules need not
+	const journal = parseJournal(transaction.lines.join('\n'));
+	const parsedTransaction = journal.nodes
+		.find((node): node is TransactionNode | PeriodicTransactionNode => node.type === 'transaction' || node.type === 'periodicTransaction');
+	if (!parsedTransaction) {
+		return null;
 	}
 
-	// Try to match plain number before currency: 100.50 USD, -100.50 "US Dollar", 100 €
-	const numberFirstMatch = trimmed.match(/^(-)?(\d+(?:,\d+)*(?:\.\d+)?)\s*("[^"]+"|[^\d\-+.@*;\t "{}=]+)?$/);
-	if (numberFirstMatch) {
-		const isNegative = numberFirstMatch[1] === '-';
-		const numericPart = numberFirstMatch[2];
-		const quotedCurrency = numberFirstMatch[3];
-		const unquotedCurrency = numberFirstMatch[4];
-		const currency = quotedCurrency || unquotedCurrency || '$'; // Default to $
-
-		const value = parseNumber(numericPart);
-		if (isNaN(value)) {
-			return null;
+	// Without the journal's styles, amounts like `1,500` are read with the marks of the transaction
+	const amountStyles = styles ?? collectCommodityStyles(journal);
+	const postings: BalancingPosting[] = [];
+	for (const posting of parsedTransaction.postings) {
+		const line = posting.raw;
+
+		// Skip metadata lines (e.g., project:, note:)
+		if (isMetadataPostingLine(line.trim()) || isMetadataPostingAccount(posting.account)) {
+			continue;
 		}
 
-		return {
-			value: isNegative ? -value : value,
-			currency
-		};
+		const postingAmount = posting.amount ? parsePostingAmount(posting.amount, amountStyles) : null;
+		const parsed = postingAmount ? getBalancingValue(postingAmount) : null;
+		postings.push({
+			line,
+			amountText: posting.amount,
+			hasAmount: parsed !== null,
+			amount: parsed ? parsed.value : null,
+			currency: parsed ? parsed.currency : null,
+			account: posting.account,
+			accountText: formatPostingAccount(posting),
+			postingType: posting.postingType
+		});
 	}
 
-	return null;
+	return postings;
 }
 
 /**
- * Formats an amount value with currency
- * @param value Numeric value
- * @param currency Currency symbol or code
- * @param style Negative commodity style
- * @returns Formatted amount string
+ * Returns the kind of posting the current line is: regular postings balance against each
+ * other and balanced virtual postings among themselves
  */
-export function formatAmountValue(value: number, currency: string, style: NegativeCommodityStyle): string {
-	const absValue = Math.abs(value);
-	const isNegative = value < 0;
-
-	// Format number with 2 decimal places and commas
-	const formattedNumber = absValue.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-
-	// Apply currency and sign based on style
-	if (style === 'signBeforeSymbol') {
-		// -$100.00
-		return isNegative ? `-${currency}${formattedNumber}` : `${currency}${formattedNumber}`;
-	} else {
-		// $-100.00 or $100.00
-		return isNegative ? `${currency}-${formattedNumber}` : `${currency}${formattedNumber}`;
+function getBalancingPostingType(postings: BalancingPosting[], context?: BalancingContext): PostingType {
+	if (context?.currentLineText) {
+		return extractPostingDetail(context.currentLineText).postingType;
 	}
+	return postings.find(p => !p.hasAmount && p.postingType !== 'virtual')?.postingType ?? 'regular';
 }
 
 /**
- * Calculates the balancing amount for a transaction
- * @param transaction Transaction info with lines
- * @param options Formatter options for styling
- * @param currentLineAccountName The account name on the current line (where suggestion will appear)
- * @returns Formatted balancing amount with proper spacing or null if cannot calculate
+ * Formats the amounts that balance a transaction, one per unbalanced commodity, in the
+ * order the commodities first appear
+ * @param postingType The kind of posting being balanced; only postings of the same kind count
+ * @returns The formatted amounts, or null if the transaction can't be balanced by the current posting
  */
-export function calculateBalancingAmount(
-	transaction: { headerLine: number; lines: string[] },
-	options: FormatterOptions,
-	currentLineAccountName: string,
-	context?: { currentLineText?: string; cursorColumn?: number }
-): string | null {
-	const postingLines = transaction.lines.slice(1); // Skip header
-	const indentWidth = Math.max(0, options.indentationWidth);
-	const currentLineText = context?.currentLineText ?? '';
-
-	// Parse all postings
-	const postings: Array<{
-		line: string;
-		hasAmount: boolean;
-		amount: number | null;
-		currency: string | null;
-		account: string | null;
-	}> = [];
-
-	for (const line of postingLines) {
-		const trimmed = line.trim();
-
-		// Skip empty lines and comments
-		if (!trimmed || isCommentLine(trimmed)) {
-			continue;
-		}
-
-		// Skip metadata lines (e.g., project:, note:)
-		if (isMetadataPostingLine(trimmed)) {
-			continue;
-		}
-
-		// Extract posting detail
-		const detail = extractPostingDetail(line);
-		if (!detail.account) {
-			continue;
-		}
-
-		if (isMetadataPostingAccount(detail.account)) {
-			continue;
-		}
-
-		if (detail.amount) {
-			// Parse amount
-			const parsed = parseAmount(detail.amount);
-			if (parsed) {
-				postings.push({
-					line,
-					hasAmount: true,
-					amount: parsed.value,
-					currency: parsed.currency,
-					account: detail.account
-				});
-			} else {
-				postings.push({
-					line,
-					hasAmount: false,
-					amount: null,
-					currency: null,
-					account: detail.account
-				});
-			}
-		} else {
-			postings.push({
-				line,
-				hasAmount: false,
-				amount: null,
-				currency: null,
-				account: detail.account
-			});
-		}
+function formatBalancingValues(allPostings: BalancingPosting[], postingType: PostingType, options: FormatterOptions, styles: CommodityStyles | null): string[] | null {
+	// Unbalanced virtual postings need no balancing amount
+	if (postingType === 'virtual') {
+		return null;
 	}
 
 	// Only suggest if exactly one posting is missing an amount
+	const postings = allPostings.filter(p => p.postingType === postingType);
 	const postingsWithoutAmount = postings.filter(p => !p.hasAmount);
 	if (postingsWithoutAmount.length !== 1) {
 		return null;
 	}
 
-	// Calculate sum of all amounts (should balance to zero)
-	const amountsByCurrency = new Map<string, number>();
+	// Calculate sum of all amounts per commodity (each should balance to zero)
+	const amountsByCurrency = new Map<string, Decimal>();
 	for (const posting of postings) {
 		if (posting.hasAmount && posting.amount !== null && posting.currency !== null) {
-			const current = amountsByCurrency.get(posting.currency) || 0;
-			amountsByCurrency.set(posting.currency, current + posting.amount);
+			const current = amountsByCurrency.get(posting.currency) ?? ZERO;
+			amountsByCurrency.set(posting.currency, addDecimals(current, posting.amount));
 		}
 	}
 
-	// Only support single currency for now
-	if (amountsByCurrency.size !== 1) {
-		return null;
-	}
-
-	const [currency, sum] = Array.from(amountsByCurrency.entries())[0];
-	const balancingValue = -sum;
+	const amountTexts = postings
+		.map(posting => posting.amountText)
+		.filter((text): text is string => text !== null);
 
-	// If the transaction already balances, don't suggest an amount
-	if (Math.abs(balancingValue) < 1e-8) {
-		return null;
+	const formatted: string[] = [];
+	for (const [currency, sum] of amountsByCurrency) {
+		// Skip commodities that already balance
+		if (decimalSign(sum) === 0) {
+			continue;
+		}
+		// A style from the journal wins over one inferred from this transaction alone
+		const commodityStyle = (styles && findCommodityStyle(styles, currency))
+			?? inferCommodityStyle(amountTexts, currency, styles)
+			?? getDefaultCommodityStyle(styles);
+		// The configured layout wins over the way the journal writes the commodity
+		const layout = getCommodityLayout(options, currency);
+		const laidOutStyle = {
+			...commodityStyle,
+			side: layout.commoditySide === 'preserve' ? commodityStyle.side : layout.commoditySide,
+			spaced: layout.commoditySpacing === 'preserve' ? commodityStyle.spaced : layout.commoditySpacing === 'spaced'
+		};
+		formatted.push(formatAmountValue(negateDecimal(sum), currency, layout.negativeCommodityStyle, laidOutStyle));
 	}
 
-	// Format the amount
-	const formattedAmount = formatAmountValue(balancingValue, currency, options.negativeCommodityStyle);
+	return formatted;
+}
+
+/**
+ * Prefixes a balancing amount with the spacing that aligns it with the transaction's
+ * other amounts, the way formatTransaction() would
+ */
+function padBalancingAmount(
+	formattedAmount: string,
+	postings: BalancingPosting[],
+	options: FormatterOptions,
+	currentLineAccountName: string,
+	context?: BalancingContext
+): string {
+	const indentWidth = getDisplayWidth(getIndentString(options), options.tabWidth);
+	const currentLineText = context?.currentLineText ?? '';
+	const styles = context?.commodityStyles ?? null;
 
-	// Calculate proper spacing based on alignment settings
-	// This mirrors the logic in formatTransaction()
-	const digitsPrefixLength = getDigitsPrefixLength(formattedAmount);
+	const anchorOffset = getAmountAnchorOffset(formattedAmount, options.amountAlignment, styles);
 
-	const currentIndentLength = currentLineText
-		? getLeadingWhitespaceLength(currentLineText)
+	// Indentation lengths are indexes into the line and indentation widths are display columns
+	const currentIndentLength = getLeadingWhitespaceLength(currentLineText);
+	const currentIndentWidth = currentLineText
+		? getDisplayWidth(currentLineText.slice(0, currentIndentLength), options.tabWidth)
 		: indentWidth;
 	const accountEndColumn = currentLineText
-		? findAccountEndColumn(currentLineText, currentLineAccountName, currentIndentLength)
-		: currentIndentLength + currentLineAccountName.length;
-	const cursorColumn = context?.cursorColumn ?? accountEndColumn;
-	const minimumDigitsColumn = accountEndColumn + 2 + digitsPrefixLength;
-	const cursorDigitsColumn = Math.max(minimumDigitsColumn, cursorColumn + digitsPrefixLength);
-
-	let baseDigitsColumn: number;
-	if (options.amountAlignment === 'widest') {
+		? findAccountEndColumn(currentLineText, currentLineAccountName, currentIndentLength, options.tabWidth)
+		: currentIndentWidth + getDisplayWidth(currentLineAccountName);
+	// The cursor position is an index into the line; the padding is worked out in display columns
+	const cursorColumn = context?.cursorColumn === undefined
+		? accountEndColumn
+		: currentLineText
+			? getDisplayWidth(currentLineText.slice(0, context.cursorColumn), options.tabWidth)
+			: context.cursorColumn;
+	const minimumAnchorColumn = accountEndColumn + 2 + anchorOffset;
+	const cursorAnchorColumn = Math.max(minimumAnchorColumn, cursorColumn + anchorOffset);
+
+	let baseAnchorColumn: number;
+	if (options.amountAlignment !== 'fixedColumn') {
 		// Calculate max column position from existing amounts
 		const postingsWithAmounts = postings.filter(p => p.hasAmount && p.account);
-		const digitColumnCandidates = postingsWithAmounts
+		const anchorColumnCandidates = postingsWithAmounts
 			.map(p => {
-				const posting = p as { account: string; line: string };
-				const detail = extractPostingDetail(posting.line);
-				if (!detail.amount) {
+				const posting = p as { account: string; line: string; amountText: string | null };
+				if (!posting.amountText) {
 					return null;
 				}
 
 				const postingIndentLength = getLeadingWhitespaceLength(posting.line);
-				const accountEnd = findAccountEndColumn(posting.line, posting.account, postingIndentLength);
-				const existingDigitsColumn = findDigitsColumnInLine(posting.line, accountEnd);
+				const accountEnd = findAccountEndIndex(posting.line, posting.account, postingIndentLength);
+				const existingAnchorColumn = findAnchorColumnInLine(posting.line, accountEnd, options, styles);
 
-				if (existingDigitsColumn !== null) {
-					return existingDigitsColumn;
+				if (existingAnchorColumn !== null) {
+					return existingAnchorColumn;
 				}
 
-				const { formatted } = formatAmountWithStyle(detail.amount, options.negativeCommodityStyle);
-				const postingDigitsPrefix = formatted ? getDigitsPrefixLength(formatted.trim()) : 0;
-				return postingIndentLength + posting.account.length + postingDigitsPrefix + 2;
+				const { formatted } = formatAmountWithStyle(posting.amountText, options);
+				const postingAnchorOffset = formatted ? getAmountAnchorOffset(formatted.trim(), options.amountAlignment, styles) : 0;
+				return getDisplayWidth(posting.line.slice(0, postingIndentLength), options.tabWidth) + getDisplayWidth(posting.account) + postingAnchorOffset + 2;
 			})
 			.filter((value): value is number => value !== null);
 
-		// Get the widest account length as fallback
-		const referenceAccountLength = Math.max(
-			...postings.map(p => p.account?.length || 0),
-			currentLineAccountName.length
+		// Get the widest account as fallback
+		const referenceAccountWidth = Math.max(
+			...postings.map(p => getDisplayWidth(p.accountText)),
+			getDisplayWidth(currentLineAccountName)
 		);
-		const fallbackIndent = currentLineText ? currentIndentLength : indentWidth;
-		const fallbackColumn = fallbackIndent + referenceAccountLength + digitsPrefixLength + 2;
+		const fallbackColumn = currentIndentWidth + referenceAccountWidth + anchorOffset + 2;
 
-		baseDigitsColumn = digitColumnCandidates.length > 0
-			? Math.max(fallbackColumn, cursorDigitsColumn, ...digitColumnCandidates)
-			: Math.max(fallbackColumn, cursorDigitsColumn);
+		baseAnchorColumn = anchorColumnCandidates.length > 0
+			? Math.max(fallbackColumn, cursorAnchorColumn, ...anchorColumnCandidates)
+			: Math.max(fallbackColumn, cursorAnchorColumn);
 	} else {
 		// Fixed column mode
-		const cursorDigitsColumnFixed = Math.max(
-			minimumDigitsColumn,
-			cursorColumn + digitsPrefixLength
-		);
-		baseDigitsColumn = Math.max(options.amountColumnPosition, cursorDigitsColumnFixed);
+		baseAnchorColumn = Math.max(options.amountColumnPosition, cursorAnchorColumn);
 	}
 
 	// Calculate padding needed (only add additional spaces beyond what already exists)
 	const existingSpacing = Math.max(0, cursorColumn - accountEndColumn);
-	const basePadding = Math.max(2, baseDigitsColumn - accountEndColumn - digitsPrefixLength);
+	const basePadding = Math.max(2, baseAnchorColumn - accountEndColumn - anchorOffset);
 	const paddingNeeded = Math.max(0, basePadding - existingSpacing);
 
 	return ' '.repeat(paddingNeeded) + formattedAmount;
 }
+
+/**
+ * Calculates the amounts that balance a transaction, one per unbalanced commodity.
+ * Each amount is formatted in its commodity's style and padded for the current line.
+ * @param transaction Transaction info with lines
+ * @param formatterOptions Formatter options for styling; missing values use the defaults
+ * @param currentLineAccountName The account name on the current line (where suggestions will appear)
+ * @returns The balancing amounts, empty if the transaction balances or can't be balanced by the current line
+ */
+export function calculateBalancingAmounts(
+	transaction: { headerLine: number; lines: string[] },
+	formatterOptions: Partial<FormatterOptions>,
+	currentLineAccountName: string,
+	context?: BalancingContext
+): string[] {
+	const options = normalizeFormatterOptions(formatterOptions);
+	const styles = context?.commodityStyles ?? null;
+	const postings = parseBalancingPostings(transaction, styles);
+	const amounts = postings ? formatBalancingValues(postings, getBalancingPostingType(postings, context), options, styles) : null;
+	if (!postings || !amounts) {
+		return [];
+	}
+
+	return amounts.map(amount => padBalancingAmount(amount, postings, options, currentLineAccountName, context));
+}
+
+/**
+ * Builds the text that balances every commodity of a transaction at once: the first
+ * amount completes the current line and each further commodity gets its own posting
+ * to the same account.
+ * @param transaction Transaction info with lines
+ * @param formatterOptions Formatter options for styling; missing values use the defaults
+ * @param currentLineAccountName The account name on the current line
+ * @returns The text to insert at the cursor, or null if there is nothing to balance
+ */
+export function calculateBalancingInsertion(
+	transaction: { headerLine: number; lines: string[] },
+	formatterOptions: Partial<FormatterOptions>,
+	currentLineAccountName: string,
+	context?: BalancingContext
+): string | null {
+	const options = normalizeFormatterOptions(formatterOptions);
+	const styles = context?.commodityStyles ?? null;
+	const postings = parseBalancingPostings(transaction, styles);
+	const amounts = postings ? formatBalancingValues(postings, getBalancingPostingType(postings, context), options, styles) : null;
+	if (!postings || !amounts || amounts.length === 0) {
+		return null;
+	}
+
+	const indent = context?.currentLineText
+		? context.currentLineText.slice(0, getLeadingWhitespaceLength(context.currentLineText))
+		: getIndentString(options);
+	// Further postings repeat the current line's status marker and brackets
+	const currentLineDetail = context?.currentLineText ? extractPostingDetail(context.currentLineText) : null;
+	const accountText = currentLineDetail?.account ? formatPostingAccount({ ...currentLineDetail, account: currentLineDetail.account }) : currentLineAccountName;
+	const postingPrefix = `${indent}${accountText}`;
+
+	const [firstAmount, ...otherAmounts] = amounts;
+	const insertedLines = [padBalancingAmount(firstAmount, postings, options, currentLineAccountName, context)];
+	for (const amount of otherAmounts) {
+		const padded = padBalancingAmount(amount, postings, options, currentLineAccountName, {
+			currentLineText: postingPrefix,
+			cursorColumn: postingPrefix.length,
+			commodityStyles: context?.commodityStyles
+		});
+		insertedLines.push(`${postingPrefix}${padded}`);
+	}
+
+	return insertedLines.join('\n');
+}
+
+/**
+ * Calculates the balancing amount for a transaction
+ * @param transaction Transaction info with lines
+ * @param formatterOptions Formatter options for styling; missing values use the defaults
+ * @param currentLineAccountName The account name on the current line (where suggestion will appear)
+ * @returns Formatted balancing amount with proper spacing, or null unless exactly one commodity is unbalanced
+ */
+export function calculateBalancingAmount(
+	transaction: { headerLine: number; lines: string[] },
+	formatterOptions: Partial<FormatterOptions>,
+	currentLineAccountName: string,
+	context?: BalancingContext
+): string | null {
+	const amounts = calculateBalancingAmounts(transaction, formatterOptions, currentLineAccountName, context);
+	return amounts.length === 1 ? amounts[0] : null;
+}
@@ -1 +1,14 @@
+export * from './amount';
+export * from './ast';
+export * from './decimal';
+export * from './diagnostics';
+export * from './edits';
+export * from './newline';
+export * from './options';
+export * from './parser';
+export * from './pragmas';
+export { formatJournalNodes, printJournal, printNode } from './printer';
+export * from './tags';
+export * from './verify';
+export * from './width';
 export * from './formatter';
@@ -0,0 +1,44 @@
+import type { LineEnding } from './options';
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Journal text with its byte order mark removed and its line endings turned into `\n`,
+ * along with what is needed to write it back the way it came
+ */
+export interface SourceText {
+	text: string;
+	hasByteOrderMark: boolean;
+	/** The line ending used by most lines; `\n` when the text has no line breaks */
+	lineEnding: '\n' | '\r\n';
+}
+
+/**
+ * Prepares journal text for parsing: strips a UTF-8 byte order mark and converts
+ * `\r\n` line endings to `\n`
+ * @param text The journal text as read
+ * @returns The normalized text and its original byte order mark and line ending
+ */
+export function readSourceText(text: string): SourceText {
+	const hasByteOrderMark = text.startsWith(BYTE_ORDER_MARK);
+	const body = hasByteOrderMark ? text.slice(BYTE_ORDER_MARK.length) : text;
+
+	const crlfCount = body.split('\r\n').length - 1;
+	const lfCount = body.split('\n').length - 1;
+	const lineEnding = crlfCount > 0 && crlfCount * 2 >= lfCount ? '\r\n' : '\n';
+
+	return { text: body.replace(/\r\n/g, '\n'), hasByteOrderMark, lineEnding };
+}
+
+/**
+ * Writes `\n`-separated output back with the byte order mark and line endings of its source
+ * @param text The output, with `\n` line endings
+ * @param source The source text as returned by `readSourceText`
+ * @param lineEnding `preserve` for the line ending of the source, or the one to use instead
+ * @returns The output as it should be saved
+ */
+export function writeSourceText(text: string, source: SourceText, lineEnding: LineEnding = 'preserve'): string {
+	const newline = lineEnding === 'crlf' ? '\r\n' : lineEnding === 'lf' ? '\n' : source.lineEnding;
+	const body = newline === '\n' ? text : text.replace(/\n/g, newline);
+	return source.hasByteOrderMark ? `${BYTE_ORDER_MARK}${body}` : body;
+}
@@ -0,0 +1,340 @@
+/**
+ * How posting amounts are lined up: `fixedColumn` puts the first digit at
+ * `amountColumnPosition`, `widest` lines up first digits after the longest account,
+ * `decimal` lines up decimal marks and `right` lines up the ends of the amounts
+ */
+export type AmountAlignment = 'fixedColumn' | 'widest' | 'decimal' | 'right';
+export type NegativeCommodityStyle = 'signBeforeSymbol' | 'symbolBeforeSign';
+export type DateFormatStyle = 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'YYYY.MM.DD';
+export type CommentCharacter = ';' | '#' | '*';
+/**
+ * Where trailing comments on postings and transaction headers start: `preserve` keeps
+ * the spacing as written, `fixedColumn` starts them at `commentColumnPosition` and
+ * `widest` lines them up two spaces after the widest posting of the transaction
+ */
+export type CommentAlignment = 'preserve' | 'fixedColumn' | 'widest';
+/** Whether a space separates a commodity symbol from its quantity (`$ 100` vs `$100`) */
+export type CommoditySpacing = 'preserve' | 'spaced' | 'unspaced';
+/** Which side of the quantity a commodity symbol goes on (`USD 100` vs `100 USD`) */
+export type CommoditySide = 'preserve' | 'left' | 'right';
+/**
+ * Where tag normalization puts the tags of a header or posting: `preserve` leaves them
+ * where they are, `inline` moves tags from tag-only comment lines into the trailing
+ * comment and `separateLine` moves tags from the trailing comment onto a comment line
+ */
+export type TagPlacement = 'preserve' | 'inline' | 'separateLine';
+/**
+ * Whether a space follows the `*` or `!` status marker of a transaction header
+ * (`! Payee` vs `!Payee`); `preserve` keeps whether one was written
+ */
+export type StatusSpacing = 'preserve' | 'spaced' | 'unspaced';
+/**
+ * The line endings of the output: `preserve` keeps the ones the journal mostly uses,
+ * `lf` writes `\n` and `crlf` writes `\r\n`
+ */
+export type LineEnding = 'preserve' | 'lf' | 'crlf';
+/** Whether postings and directive sub-lines are indented with spaces or with a tab */
+export type IndentStyle = 'spaces' | 'tabs';
+
+/**
+ * Amount layout settings for one commodity, overriding the global options
+ */
+export interface CommodityLayout {
+	negativeCommodityStyle?: NegativeCommodityStyle;
+	commoditySpacing?: CommoditySpacing;
+	commoditySide?: CommoditySide;
+}
+
+export interface FormatterOptions {
+	amountColumnPosition: number;
+	amountAlignment: AmountAlignment;
+	/** Spaces to indent with; with `indentStyle: 'tabs'` the indentation is one tab instead */
+	indentationWidth: number;
+	indentStyle: IndentStyle;
+	/** Columns between tab stops, used to measure tabs when lining things up */
+	tabWidth: number;
+	negativeCommodityStyle: NegativeCommodityStyle;
+	dateFormat: DateFormatStyle;
+	commentCharacter: CommentCharacter;
+	/** Rewrite year-less dates such as `1/5` as full dates using their resolved year */
+	expandShortDates: boolean;
+	/** Line up balance assertions (`= $500`) in a second column after the amounts */
+	alignBalanceAssertions: boolean;
+	/** Rewrite amounts in their commodity's display style, from `commodity` directives or first use */
+	normalizeAmounts: boolean;
+	commoditySpacing: CommoditySpacing;
+	commoditySide: CommoditySide;
+	/** Per-commodity layout overrides, keyed by the commodity symbol as written (e.g. `"Gift Card"` with quotes) */
+	commodityLayouts: Record<string, CommodityLayout>;
+	commentAlignment: CommentAlignment;
+	commentColumnPosition: number;
+	/**
+	 * Rewrite comment markers to `commentCharacter` (`;` inside transactions and directives,
+	 * `;` instead of `*` for indented comments) with a single space after them
+	 */
+	normalizeComments: boolean;
+	/** Rewrite tags as `name:value` separated by `, `, without repeated tags */
+	normalizeTags: boolean;
+	/** Sort tags by name; only applies with `normalizeTags` */
+	sortTags: boolean;
+	/** Only applies with `normalizeTags` */
+	tagPlacement: TagPlacement;
+	/**
+	 * Collapse whitespace runs in transaction descriptions to single spaces and write the
+	 * payee and note of a `payee | note` description with one space around the `|`
+	 */
+	normalizeDescriptions: boolean;
+	/** Payees to replace, e.g. `{ "AMZN MKTP US*1A2B": "Amazon" }`; matched against the whole payee, ignoring repeated whitespace */
+	payeeRewrites: Record<string, string>;
+	statusSpacing: StatusSpacing;
+	/** Blank lines after a transaction, before the next transaction or anything separated from it by a blank line */
+	blankLinesBetweenTransactions: number;
+	/**
+	 * Blank lines between a directive and the transaction or separated node next to it;
+	 * null keeps them as written. Comments written directly above or below a directive stay attached.
+	 */
+	blankLinesAroundDirectives: number | null;
+	/** The most blank lines kept in a row between entries; null for no limit */
+	maxBlankLines: number | null;
+	/** Strip trailing whitespace from every line */
+	trimTrailingWhitespace: boolean;
+	/** End the output with exactly one newline */
+	ensureFinalNewline: boolean;
+	lineEnding: LineEnding;
+}
+
+export const DEFAULT_FORMATTER_OPTIONS: FormatterOptions = {
+	amountColumnPosition: 42,
+	amountAlignment: 'widest',
+	indentationWidth: 4,
+	indentStyle: 'spaces',
+	tabWidth: 4,
+	negativeCommodityStyle: 'symbolBeforeSign',
+	dateFormat: 'YYYY-MM-DD',
+	commentCharacter: ';',
+	expandShortDates: false,
+	alignBalanceAssertions: false,
+	normalizeAmounts: false,
+	commoditySpacing: 'preserve',
+	commoditySide: 'preserve',
+	commodityLayouts: {},
+	commentAlignment: 'preserve',
+	commentColumnPosition: 60,
+	normalizeComments: false,
+	normalizeTags: false,
+	sortTags: false,
+	tagPlacement: 'preserve',
+	normalizeDescriptions: false,
+	payeeRewrites: {},
+	statusSpacing: 'spaced',
+	blankLinesBetweenTransactions: 1,
+	blankLinesAroundDirectives: null,
+	maxBlankLines: null,
+	trimTrailingWhitespace: false,
+	ensureFinalNewline: false,
+	lineEnding: 'preserve'
+};
+
+function normalizeNegativeCommodityStyle(value: unknown): NegativeCommodityStyle {
+	return value === 'symbolBeforeSign' ? 'symbolBeforeSign' : 'signBeforeSymbol';
+}
+
+function normalizeCommoditySpacing(value: unknown): CommoditySpacing {
+	return value === 'spaced' || value === 'unspaced' ? value : 'preserve';
+}
+
+function normalizeCommoditySide(value: unknown): CommoditySide {
+	return value === 'left' || value === 'right' ? value : 'preserve';
+}
+
+function normalizeCommodityLayouts(layouts: unknown): Record<string, CommodityLayout> {
+	if (typeof layouts !== 'object' || layouts === null) {
+		return {};
+	}
+
+	const result: Record<string, CommodityLayout> = {};
+	for (const [commodity, layout] of Object.entries(layouts as Record<string, unknown>)) {
+		if (typeof layout !== 'object' || layout === null) {
+			continue;
+		}
+		const { negativeCommodityStyle, commoditySpacing, commoditySide } = layout as CommodityLayout;
+		result[commodity] = {
+			...(negativeCommodityStyle !== undefined ? { negativeCommodityStyle: normalizeNegativeCommodityStyle(negativeCommodityStyle) } : {}),
+			...(commoditySpacing !== undefined ? { commoditySpacing: normalizeCommoditySpacing(commoditySpacing) } : {}),
+			...(commoditySide !== undefined ? { commoditySide: normalizeCommoditySide(commoditySide) } : {})
+		};
+	}
+	return result;
+}
+
+function normalizeLineCount(value: unknown, fallback: number): number {
+	return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : fallback;
+}
+
+function normalizeOptionalLineCount(value: unknown): number | null {
+	return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : null;
+}
+
+function collapseWhitespace(text: string): string {
+	return text.trim().split(/\s+/).join(' ');
+}
+
+function normalizePayeeRewrites(rewrites: unknown): Record<string, string> {
+	if (typeof rewrites !== 'object' || rewrites === null) {
+		return {};
+	}
+
+	const result: Record<string, string> = {};
+	for (const [payee, replacement] of Object.entries(rewrites as Record<string, unknown>)) {
+		if (typeof replacement === 'string' && payee.trim()) {
+			result[collapseWhitespace(payee)] = replacement.trim();
+		}
+	}
+	return result;
+}
+
+export function normalizeFormatterOptions(optionsOrColumn?: number | Partial<FormatterOptions>): FormatterOptions {
+	const merged: Partial<FormatterOptions> = typeof optionsOrColumn === 'number'
+		? { ...DEFAULT_FORMATTER_OPTIONS, amountColumnPosition: optionsOrColumn }
+		: { ...DEFAULT_FORMATTER_OPTIONS, ...(optionsOrColumn ?? {}) };
+
+	const amountColumnPosition = typeof merged.amountColumnPosition === 'number'
+		? Math.max(0, Math.floor(merged.amountColumnPosition))
+		: DEFAULT_FORMATTER_OPTIONS.amountColumnPosition;
+
+	const indentationWidth = typeof merged.indentationWidth === 'number'
+		? Math.max(0, Math.floor(merged.indentationWidth))
+		: DEFAULT_FORMATTER_OPTIONS.indentationWidth;
+	const indentStyle: IndentStyle = merged.indentStyle === 'tabs' ? 'tabs' : 'spaces';
+	const tabWidth = Math.max(1, normalizeLineCount(merged.tabWidth, DEFAULT_FORMATTER_OPTIONS.tabWidth));
+
+	const amountAlignment: AmountAlignment = merged.amountAlignment === 'widest' || merged.amountAlignment === 'decimal' || merged.amountAlignment === 'right'
+		? merged.amountAlignment
+		: 'fixedColumn';
+	const negativeCommodityStyle = normalizeNegativeCommodityStyle(merged.negativeCommodityStyle);
+	const dateFormat: DateFormatStyle = merged.dateFormat === 'YYYY/MM/DD'
+		? 'YYYY/MM/DD'
+		: merged.dateFormat === 'YYYY.MM.DD'
+			? 'YYYY.MM.DD'
+			: 'YYYY-MM-DD';
+	const commentCharacter: CommentCharacter = merged.commentCharacter === '#'
+		? '#'
+		: merged.commentCharacter === '*'
+			? '*'
+			: ';';
+	const expandShortDates = merged.expandShortDates === true;
+	const alignBalanceAssertions = merged.alignBalanceAssertions === true;
+	const normalizeAmounts = merged.normalizeAmounts === true;
+	const commoditySpacing = normalizeCommoditySpacing(merged.commoditySpacing);
+	const commoditySide = normalizeCommoditySide(merged.commoditySide);
+	const commodityLayouts = normalizeCommodityLayouts(merged.commodityLayouts);
+	const commentAlignment: CommentAlignment = merged.commentAlignment === 'fixedColumn' || merged.commentAlignment === 'widest'
+		? merged.commentAlignment
+		: 'preserve';
+	const commentColumnPosition = typeof merged.commentColumnPosition === 'number'
+		? Math.max(0, Math.floor(merged.commentColumnPosition))
+		: DEFAULT_FORMATTER_OPTIONS.commentColumnPosition;
+	const normalizeComments = merged.normalizeComments === true;
+	const normalizeTags = merged.normalizeTags === true;
+	const sortTags = merged.sortTags === true;
+	const tagPlacement: TagPlacement = merged.tagPlacement === 'inline' || merged.tagPlacement === 'separateLine'
+		? merged.tagPlacement
+		: 'preserve';
+	const normalizeDescriptions = merged.normalizeDescriptions === true;
+	const payeeRewrites = normalizePayeeRewrites(merged.payeeRewrites);
+	const statusSpacing: StatusSpacing = merged.statusSpacing === 'preserve' || merged.statusSpacing === 'unspaced'
+		? merged.statusSpacing
+		: 'spaced';
+	const blankLinesBetweenTransactions = normalizeLineCount(merged.blankLinesBetweenTransactions, DEFAULT_FORMATTER_OPTIONS.blankLinesBetweenTransactions);
+	const blankLinesAroundDirectives = normalizeOptionalLineCount(merged.blankLinesAroundDirectives);
+	const maxBlankLines = normalizeOptionalLineCount(merged.maxBlankLines);
+	const trimTrailingWhitespace = merged.trimTrailingWhitespace === true;
+	const ensureFinalNewline = merged.ensureFinalNewline === true;
+	const lineEnding: LineEnding = merged.lineEnding === 'lf' || merged.lineEnding === 'crlf'
+		? merged.lineEnding
+		: 'preserve';
+
+	return {
+		amountColumnPosition,
+		amountAlignment,
+		indentationWidth,
+		indentStyle,
+		tabWidth,
+		negativeCommodityStyle,
+		dateFormat,
+		commentCharacter,
+		expandShortDates,
+		alignBalanceAssertions,
+		normalizeAmounts,
+		commoditySpacing,
+		commoditySide,
+		commodityLayouts,
+		commentAlignment,
+		commentColumnPosition,
+		normalizeComments,
+		normalizeTags,
+		sortTags,
+		tagPlacement,
+		normalizeDescriptions,
+		payeeRewrites,
+		statusSpacing,
+		blankLinesBetweenTransactions,
+		blankLinesAroundDirectives,
+		maxBlankLines,
+		trimTrailingWhitespace,
+		ensureFinalNewline,
+		lineEnding
+	};
+}
+
+/**
+ * Resolves the amount layout for a commodity: its own overrides, falling back to the global options
+ * @param options Normalized formatter options
+ * @param currency The commodity symbol as written
+ */
+export function getCommodityLayout(options: FormatterOptions, currency: string): Required<CommodityLayout> {
+	const layout = options.commodityLayouts[currency] ?? {};
+	return {
+		negativeCommodityStyle: layout.negativeCommodityStyle ?? options.negativeCommodityStyle,
+		commoditySpacing: layout.commoditySpacing ?? options.commoditySpacing,
+		commoditySide: layout.commoditySide ?? options.commoditySide
+	};
+}
+
+/**
+ * Looks up the configured replacement for a payee
+ * @param options Normalized formatter options
+ * @param payee The payee as written
+ * @returns The replacement, or null when the payee is not rewritten
+ */
+export function getPayeeRewrite(options: FormatterOptions, payee: string): string | null {
+	const key = collapseWhitespace(payee);
+	return Object.hasOwn(options.payeeRewrites, key) ? options.payeeRewrites[key] : null;
+}
+
+/**
+ * The indentation of postings and directive sub-lines: a tab, or `indentationWidth` spaces
+ * @param options Normalized formatter options
+ */
+export function getIndentString(options: FormatterOptions): string {
+	return options.indentStyle === 'tabs' ? '\t' : ' '.repeat(options.indentationWidth);
+}
+
+export type UndatedEntryPlacement = 'inPlace' | 'top';
+
+export interface SortOptions {
+	/** Where periodic transactions (`~`) and auto posting rules (`=`) go when sorting */
+	undatedEntryPlacement: UndatedEntryPlacement;
+}
+
+export const DEFAULT_SORT_OPTIONS: SortOptions = {
+	undatedEntryPlacement: 'inPlace'
+};
+
+export function normalizeSortOptions(options?: Partial<SortOptions>): SortOptions {
+	const undatedEntryPlacement: UndatedEntryPlacement = options?.undatedEntryPlacement === 'top' ? 'top' : 'inPlace';
+
+	return {
+		undatedEntryPlacement
+	};
+}
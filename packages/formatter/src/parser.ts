@@ -0,0 +1,725 @@
+import type {
+	BalanceAssertionOperator,
+	BlankRunNode,
+	CommentBlockNode,
+	CommentNode,
+	DateComponents,
+	DirectiveNode,
+	Journal,
+	JournalNode,
+	AutoPostingRuleHeader,
+	AutoPostingRuleNode,
+	PeriodicTransactionHeader,
+	PeriodicTransactionNode,
+	PostingNode,
+	PostingType,
+	SourceSpan,
+	TransactionDate,
+	TransactionHeader,
+	TransactionLikeNode,
+	TransactionNode,
+	TransactionStatus
+} from './ast';
+import type { CommentCharacter } from './options';
+import { parseTags } from './tags';
+
+export const TRANSACTION_DATE_PREFIX = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})/;
+/** A year-less `M/D` date; it must be followed by whitespace, `=` or the end of the line */
+export const SHORT_DATE_PREFIX = /^(\d{1,2})([-/.])(\d{1,2})(?=[\s=]|$)/;
+
+export interface PostingDetail {
+	trimmed: string;
+	status: TransactionStatus;
+	postingType: PostingType;
+	/** The account name, without the status marker or virtual posting brackets */
+	account: string | null;
+	amount: string | null;
+	assertionOperator: BalanceAssertionOperator | null;
+	assertion: string | null;
+	/** The trailing comment starting at its `;`, if any */
+	comment: string | null;
+	/** The whitespace between the rest of the posting and the trailing comment */
+	commentGap: string;
+	/** True when a single space separates the account from the amount, so the amount was found by its leading digits */
+	separatorGuessed: boolean;
+}
+
+// The amount may not contain `=` or `;` outside a `{lot price}`, so neither a fixed lot
+// price `{=$150}` nor an `=` inside a trailing comment is taken for an operator
+const BALANCE_ASSERTION = /^((?:[^=;{]|\{[^}]*\})*?)\s*(==?\*?)\s*(\S.*)$/;
+
+/**
+ * Splits a balance assertion or assignment (`$10 = $500`, `== $500`, `=* $500`) off the amount text of a posting
+ * @param amountText Everything after the account name
+ * @returns The posted amount and the assertion, if any
+ */
+function splitBalanceAssertion(amountText: string): Pick<PostingDetail, 'amount' | 'assertionOperator' | 'assertion'> {
+	const match = amountText.match(BALANCE_ASSERTION);
+	if (!match) {
+		return { amount: amountText, assertionOperator: null, assertion: null };
+	}
+
+	return {
+		amount: match[1] || null,
+		assertionOperator: match[2] as BalanceAssertionOperator,
+		assertion: match[3].trim()
+	};
+}
+
+/**
+ * Checks if a line is a comment (starts with #, ;, or *)
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line is a comment
+ */
+export function isCommentLine(line: string): boolean {
+	const trimmed = line.trim();
+	return trimmed.startsWith(';') || trimmed.startsWith('#') || trimmed.startsWith('*');
+}
+
+export function isMetadataPostingLine(trimmedLine: string): boolean {
+	if (!trimmedLine) {
+		return false;
+	}
+
+	// Ignore actual postings which always separate account and amount with two spaces or tabs
+	if (/\s{2,}|\t/.test(trimmedLine)) {
+		return false;
+	}
+
+	// Treat key/value metadata (e.g., "project: xyz" or "note: something") as metadata.
+	// Matches keys made of word characters, dots, or hyphens, followed by a colon and optional value that
+	// either ends immediately or starts with single whitespace (no amount-style spacing).
+	return /^[A-Za-z0-9_.-]+:(\s+.*)?$/.test(trimmedLine);
+}
+
+export function isMetadataPostingAccount(account: string | null | undefined): boolean {
+	if (!account) {
+		return false;
+	}
+	const trimmedAccount = account.trim();
+	return trimmedAccount.endsWith(':') || /:\s/.test(trimmedAccount);
+}
+
+/**
+ * Checks if a line starts a comment block
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line starts a comment block
+ */
+export function isCommentBlockStart(line: string): boolean {
+	return line.trim() === 'comment';
+}
+
+/**
+ * Checks if a line ends a comment block
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line ends a comment block
+ */
+export function isCommentBlockEnd(line: string): boolean {
+	return line.trim() === 'end comment';
+}
+
+/**
+ * Extracts the comment character and content from a comment line
+ * @param line The comment line
+ * @returns An object with the comment character, leading whitespace, and content, or null if not a comment
+ */
+export function parseCommentLine(line: string): { char: CommentCharacter; leadingWhitespace: string; content: string } | null {
+	const match = line.match(/^(\s*)([#;*])\s?(.*)$/);
+	if (!match) {
+		return null;
+	}
+
+	const [, leadingWhitespace, char, content] = match;
+	return {
+		char: char as CommentCharacter,
+		leadingWhitespace,
+		content
+	};
+}
+
+export function isTransactionHeaderLine(line: string): boolean {
+	const trimmed = line.trim();
+	return extractDateComponents(trimmed) !== null
+		|| SHORT_DATE_PREFIX.test(trimmed)
+		|| isPeriodicTransactionHeaderLine(trimmed)
+		|| isAutoPostingRuleHeaderLine(trimmed);
+}
+
+/**
+ * Checks if a line starts a periodic transaction (`~ monthly`)
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line is a periodic transaction header
+ */
+export function isPeriodicTransactionHeaderLine(line: string): boolean {
+	return /^~\s*\S/.test(line.trim());
+}
+
+/**
+ * Checks if a line starts an auto posting rule (`= expenses:food`)
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line is an auto posting rule header
+ */
+export function isAutoPostingRuleHeaderLine(line: string): boolean {
+	return /^=[^=]*\S/.test(line.trim());
+}
+
+/**
+ * Splits the trailing comment off a posting: it starts at the first `;` that is not
+ * inside a quoted commodity symbol. Like hledger, `#` only starts a comment at the
+ * beginning of a line
+ * @param text The posting text
+ * @returns The text before the comment, the comment and the whitespace between them
+ */
+export function splitPostingComment(text: string): { content: string; comment: string | null; commentGap: string } {
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === '"') {
+			quoted = !quoted;
+		} else if (!quoted && char === ';') {
+			const content = text.slice(0, i).trimEnd();
+			return { content, comment: text.slice(i), commentGap: text.slice(content.length, i) };
+		}
+	}
+	return { content: text, comment: null, commentGap: '' };
+}
+
+/**
+ * Splits the brackets of a virtual posting off an account: `(account)` for an unbalanced
+ * and `[account]` for a balanced virtual posting
+ */
+function splitVirtualAccount(account: string): { postingType: PostingType; account: string } {
+	const match = account.match(/^(?:\((.*)\)|\[(.*)\])$/);
+	if (!match) {
+		return { postingType: 'regular', account };
+	}
+	return match[1] !== undefined
+		? { postingType: 'virtual', account: match[1].trim() }
+		: { postingType: 'balancedVirtual', account: match[2].trim() };
+}
+
+export function extractPostingDetail(line: string): PostingDetail {
+	const trimmed = line.trim();
+	const { content: contentWithStatus, comment, commentGap } = splitPostingComment(trimmed);
+	// A status marker may be followed by any whitespace, so it is split off before the amount
+	const statusMatch = contentWithStatus.match(/^([*!])\s*/);
+	const status: TransactionStatus = statusMatch ? statusMatch[1] as TransactionStatus : '';
+	const content = statusMatch ? contentWithStatus.slice(statusMatch[0].length) : contentWithStatus;
+	if (!content) {
+		return { trimmed, status, postingType: 'regular', account: null, amount: null, assertionOperator: null, assertion: null, comment, commentGap, separatorGuessed: false };
+	}
+
+	const accountAmountSeparator = /\s{2,}|\t+/;
+	const parts = content.split(accountAmountSeparator);
+
+	if (parts.length >= 2) {
+		return {
+			trimmed,
+			status,
+			...splitVirtualAccount(parts[0].trim()),
+			...splitBalanceAssertion(parts.slice(1).join(' ').trim()),
+			comment,
+			commentGap,
+			separatorGuessed: false
+		};
+	}
+
+	const fallbackMatch = content.match(/^(\S+(?:\s+\S+)*?)(?:\s*)(\$-?\d+(?:,\d+)*(?:\.\d+)?|\-\$\d+(?:,\d+)*(?:\.\d+)?|\d+(?:,\d+)*(?:\.\d+)?)(.*)$/);
+	if (fallbackMatch) {
+		const account = fallbackMatch[1].trim();
+		const numericPart = fallbackMatch[2].trim();
+		const rest = fallbackMatch[3] ?? '';
+		const amount = `${numericPart}${rest}`.trim();
+		return { trimmed, status, ...splitVirtualAccount(account), ...splitBalanceAssertion(amount), comment, commentGap, separatorGuessed: true };
+	}
+
+	return { trimmed, status, ...splitVirtualAccount(content), amount: null, assertionOperator: null, assertion: null, comment, commentGap, separatorGuessed: false };
+}
+
+export function extractDateComponents(text: string): { components: DateComponents; raw: string } | null {
+	const match = text.match(TRANSACTION_DATE_PREFIX);
+	if (!match) {
+		return null;
+	}
+
+	const year = Number(match[1]);
+	const month = Number(match[3]);
+	const day = Number(match[4]);
+
+	if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+		return null;
+	}
+
+	if (month < 1 || month > 12 || day < 1 || day > 31) {
+		return null;
+	}
+
+	return {
+		components: { year, month, day },
+		raw: match[0]
+	};
+}
+
+const DIRECTIVE_KEYWORD = /^!?(?:account|alias|apply|assert|bucket|check|commodity|decimal-mark|def|end|include|payee|tag|year|A|C|D|N|P|Y)(?=\s|$)/;
+
+/**
+ * Checks if a line starts with a known hledger directive keyword
+ * @param line The line to check (should be trimmed)
+ * @returns true if the line is a directive
+ */
+export function isDirectiveLine(line: string): boolean {
+	return DIRECTIVE_KEYWORD.test(line.trim());
+}
+
+function getIndentLength(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function lineSpan(lines: string[], startLine: number, endLine: number): SourceSpan {
+	return {
+		start: { line: startLine, column: getIndentLength(lines[startLine]) },
+		end: { line: endLine, column: lines[endLine].length }
+	};
+}
+
+function rawText(lines: string[], startLine: number, endLine: number): string {
+	return lines.slice(startLine, endLine + 1).join('\n');
+}
+
+function parseCommentNode(lines: string[], lineNumber: number): CommentNode {
+	const line = lines[lineNumber];
+	const parsed = parseCommentLine(line);
+	return {
+		type: 'comment',
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: line,
+		marker: parsed ? parsed.char : ';',
+		text: parsed ? parsed.content : line.trim(),
+		tags: parseTags(line.trim())
+	};
+}
+
+function parsePostingNode(lines: string[], lineNumber: number): PostingNode {
+	const line = lines[lineNumber];
+	const detail = extractPostingDetail(line);
+	return {
+		type: 'posting',
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: line,
+		status: detail.status,
+		postingType: detail.postingType,
+		account: detail.account ?? detail.trimmed,
+		amount: detail.amount,
+		assertionOperator: detail.assertionOperator,
+		assertion: detail.assertion,
+		comment: detail.comment,
+		commentGap: detail.commentGap,
+		separatorGuessed: detail.separatorGuessed,
+		tags: parseTags(detail.comment)
+	};
+}
+
+/**
+ * Splits the trailing `;` comment off a header line
+ * @returns The header text without indentation or comment, the comment and the whitespace before it
+ */
+function splitHeaderComment(line: string): { content: string; comment: string | null; commentGap: string } {
+	const commentIndex = line.search(/\s*;.*$/);
+	if (commentIndex === -1) {
+		return { content: line.trim(), comment: null, commentGap: '' };
+	}
+
+	const commentPart = line.slice(commentIndex);
+	const commentStart = commentPart.indexOf(';');
+	return {
+		content: line.slice(0, commentIndex).trim(),
+		comment: commentPart.slice(commentStart),
+		commentGap: commentPart.slice(0, commentStart)
+	};
+}
+
+function parsePeriodicTransactionHeader(lines: string[], lineNumber: number): PeriodicTransactionHeader {
+	const { content, comment, commentGap } = splitHeaderComment(lines[lineNumber]);
+	const body = content.slice(1).trim();
+	const separatorIndex = body.search(/\s{2,}|\t/);
+	return {
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: lines[lineNumber],
+		period: separatorIndex === -1 ? body : body.slice(0, separatorIndex),
+		description: separatorIndex === -1 ? '' : body.slice(separatorIndex).trim(),
+		comment,
+		commentGap,
+		tags: parseTags(comment)
+	};
+}
+
+function parseAutoPostingRuleHeader(lines: string[], lineNumber: number): AutoPostingRuleHeader {
+	const { content, comment, commentGap } = splitHeaderComment(lines[lineNumber]);
+	return {
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: lines[lineNumber],
+		query: content.slice(1).trim(),
+		comment,
+		commentGap,
+		tags: parseTags(comment)
+	};
+}
+
+/**
+ * State carried from one node to the next while parsing a journal
+ */
+interface ParseContext {
+	/** The year applied to short dates, set by the most recent `Y` directive */
+	defaultYear: number;
+}
+
+/**
+ * Parses a full or year-less date at the start of a text
+ * @param text The text to parse
+ * @param defaultYear The year given to a date written without one
+ * @returns The parsed date, or null if the text does not start with a valid date
+ */
+function parseTransactionDate(text: string, defaultYear: number): TransactionDate | null {
+	const fullDate = extractDateComponents(text);
+	if (fullDate) {
+		return { raw: fullDate.raw, components: fullDate.components, short: false };
+	}
+
+	const match = text.match(SHORT_DATE_PREFIX);
+	if (!match) {
+		return null;
+	}
+
+	const month = Number(match[1]);
+	const day = Number(match[3]);
+	if (month < 1 || month > 12 || day < 1 || day > 31) {
+		return null;
+	}
+
+	return { raw: match[0], components: { year: defaultYear, month, day }, short: true };
+}
+
+/**
+ * Reads the year set by a `Y`, `year` or `apply year` directive
+ * @returns The year, or null if the directive does not set one
+ */
+export function getDirectiveYear(directive: DirectiveNode): number | null {
+	let argument = directive.argument;
+	if (directive.keyword === 'apply') {
+		const applyMatch = argument.match(/^year\s+(.*)$/);
+		if (!applyMatch) {
+			return null;
+		}
+		argument = applyMatch[1];
+	} else if (directive.keyword !== 'Y' && directive.keyword !== 'year') {
+		return null;
+	}
+
+	const yearMatch = argument.match(/^(\d{4})\b/);
+	return yearMatch ? Number(yearMatch[1]) : null;
+}
+
+/**
+ * Splits a description into hledger's payee and note at the first `|`
+ */
+function splitPayeeNote(description: string): { payee: string; note: string | null } {
+	const pipeIndex = description.indexOf('|');
+	if (pipeIndex === -1) {
+		return { payee: description.trim(), note: null };
+	}
+	return { payee: description.slice(0, pipeIndex).trim(), note: description.slice(pipeIndex + 1).trim() };
+}
+
+/**
+ * Splits a transaction header line into its dates, status, code, description and comment
+ * @param lines All source lines
+ * @param lineNumber The line holding the header
+ * @param context The parse state supplying the year of short dates
+ * @returns The parsed header, or null if the line does not start with a date
+ */
+function parseTransactionHeader(lines: string[], lineNumber: number, context: ParseContext): TransactionHeader | null {
+	const line = lines[lineNumber];
+	const { content: trimmedHeader, comment, commentGap } = splitHeaderComment(line);
+
+	const date = parseTransactionDate(trimmedHeader, context.defaultYear);
+	if (!date) {
+		return null;
+	}
+
+	let remainder = trimmedHeader.slice(date.raw.length);
+	let secondaryDate: TransactionDate | null = null;
+	if (remainder.startsWith('=')) {
+		// A year-less secondary date takes its year from the primary date
+		secondaryDate = parseTransactionDate(remainder.slice(1), date.components.year);
+		if (secondaryDate) {
+			remainder = remainder.slice(secondaryDate.raw.length + 1);
+		}
+	}
+
+	remainder = remainder.trimStart();
+	let status: TransactionStatus = '';
+	let statusSpaced = false;
+	if (remainder.startsWith('*') || remainder.startsWith('!')) {
+		status = remainder.charAt(0) as TransactionStatus;
+		statusSpaced = /^\s/.test(remainder.slice(1));
+		remainder = remainder.slice(1).trimStart();
+	}
+
+	let code: string | null = null;
+	const codeMatch = remainder.match(/^\(([^)]*)\)/);
+	if (codeMatch) {
+		code = codeMatch[1];
+		remainder = remainder.slice(codeMatch[0].length).trimStart();
+	}
+
+	return {
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: line,
+		date,
+		secondaryDate,
+		status,
+		statusSpaced,
+		code,
+		description: remainder,
+		...splitPayeeNote(remainder),
+		comment,
+		commentGap,
+		tags: parseTags(comment)
+	};
+}
+
+/**
+ * Checks if a line inside a transaction ends it. Postings may start at column 0
+ * (a common typo the formatter repairs), so only unindented comments and directives
+ * close the transaction in addition to blank lines and new headers.
+ */
+function endsTransaction(line: string): boolean {
+	const trimmed = line.trim();
+	if (!trimmed || isCommentBlockStart(trimmed) || isTransactionHeaderLine(trimmed)) {
+		return true;
+	}
+	if (getIndentLength(line) > 0) {
+		return false;
+	}
+	return isCommentLine(trimmed) || isDirectiveLine(trimmed);
+}
+
+/**
+ * Checks if an indented line inside a transaction is a comment. A leading `*` there marks
+ * a cleared posting when an amount, virtual posting brackets or an account with a `:` follow it.
+ */
+function isTransactionCommentLine(line: string): boolean {
+	if (!isCommentLine(line)) {
+		return false;
+	}
+	if (!line.trim().startsWith('*')) {
+		return true;
+	}
+	const detail = extractPostingDetail(line);
+	return !detail.amount && !detail.assertion && detail.postingType === 'regular' && !detail.account?.includes(':');
+}
+
+function parseTransactionBody(lines: string[], startLine: number): { children: Array<PostingNode | CommentNode>; endLine: number } {
+	const children: Array<PostingNode | CommentNode> = [];
+	let endLine = startLine;
+
+	for (let i = startLine + 1; i < lines.length && !endsTransaction(lines[i]); i++) {
+		children.push(isTransactionCommentLine(lines[i]) ? parseCommentNode(lines, i) : parsePostingNode(lines, i));
+		endLine = i;
+	}
+
+	return { children, endLine };
+}
+
+/**
+ * Parses a dated transaction, periodic transaction or auto posting rule starting at a line
+ * @returns The parsed node, or null if the line is not a transaction header
+ */
+function parseTransactionLike(lines: string[], startLine: number, context: ParseContext): TransactionLikeNode | null {
+	const trimmed = lines[startLine].trim();
+	if (!isTransactionHeaderLine(trimmed)) {
+		return null;
+	}
+
+	const { children, endLine } = parseTransactionBody(lines, startLine);
+	const body = {
+		span: lineSpan(lines, startLine, endLine),
+		raw: rawText(lines, startLine, endLine),
+		children,
+		postings: children.filter((child): child is PostingNode => child.type === 'posting')
+	};
+
+	const header = parseTransactionHeader(lines, startLine, context);
+	if (header) {
+		const transaction: TransactionNode = { type: 'transaction', header, ...body };
+		return transaction;
+	}
+
+	if (isPeriodicTransactionHeaderLine(trimmed)) {
+		const periodic: PeriodicTransactionNode = { type: 'periodicTransaction', header: parsePeriodicTransactionHeader(lines, startLine), ...body };
+		return periodic;
+	}
+
+	const rule: AutoPostingRuleNode = { type: 'autoPostingRule', header: parseAutoPostingRuleHeader(lines, startLine), ...body };
+	return rule;
+}
+
+function parseDirective(lines: string[], lineNumber: number): DirectiveNode {
+	const trimmed = lines[lineNumber].trim();
+	const keywordMatch = trimmed.match(/^\S+/);
+	const keyword = keywordMatch ? keywordMatch[0] : '';
+	return {
+		type: 'directive',
+		span: lineSpan(lines, lineNumber, lineNumber),
+		raw: lines[lineNumber],
+		keyword,
+		argument: trimmed.slice(keyword.length).trim(),
+		children: []
+	};
+}
+
+function parseDirectiveWithChildren(lines: string[], startLine: number): DirectiveNode {
+	const directive = parseDirective(lines, startLine);
+	if (getIndentLength(lines[startLine]) > 0) {
+		return directive;
+	}
+
+	let endLine = startLine;
+	for (let i = startLine + 1; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (!trimmed || getIndentLength(lines[i]) === 0 || isCommentBlockStart(trimmed) || isTransactionHeaderLine(trimmed)) {
+			break;
+		}
+		directive.children.push(isCommentLine(trimmed) ? parseCommentNode(lines, i) : parseDirective(lines, i));
+		endLine = i;
+	}
+
+	directive.span = lineSpan(lines, startLine, endLine);
+	directive.raw = rawText(lines, startLine, endLine);
+	return directive;
+}
+
+function parseDelimitedCommentBlock(lines: string[], startLine: number): CommentBlockNode {
+	let endLine = lines.length - 1;
+	let terminated = false;
+	for (let i = startLine + 1; i < lines.length; i++) {
+		if (isCommentBlockEnd(lines[i])) {
+			endLine = i;
+			terminated = true;
+			break;
+		}
+	}
+
+	return {
+		type: 'commentBlock',
+		span: lineSpan(lines, startLine, endLine),
+		raw: rawText(lines, startLine, endLine),
+		delimited: true,
+		terminated,
+		comments: []
+	};
+}
+
+function parseCommentRun(lines: string[], startLine: number): CommentBlockNode {
+	const comments: CommentNode[] = [];
+	let endLine = startLine;
+	for (let i = startLine; i < lines.length && lines[i].trim() && isCommentLine(lines[i]); i++) {
+		comments.push(parseCommentNode(lines, i));
+		endLine = i;
+	}
+
+	return {
+		type: 'commentBlock',
+		span: lineSpan(lines, startLine, endLine),
+		raw: rawText(lines, startLine, endLine),
+		delimited: false,
+		terminated: true,
+		comments
+	};
+}
+
+function parseBlankRun(lines: string[], startLine: number): BlankRunNode {
+	let endLine = startLine;
+	while (endLine + 1 < lines.length && !lines[endLine + 1].trim()) {
+		endLine++;
+	}
+
+	return {
+		type: 'blankRun',
+		span: {
+			start: { line: startLine, column: 0 },
+			end: { line: endLine, column: lines[endLine].length }
+		},
+		raw: rawText(lines, startLine, endLine),
+		count: endLine - startLine + 1
+	};
+}
+
+function parseNode(lines: string[], lineNumber: number, context: ParseContext): JournalNode {
+	const trimmed = lines[lineNumber].trim();
+	if (!trimmed) {
+		return parseBlankRun(lines, lineNumber);
+	}
+
+	if (isCommentBlockStart(trimmed)) {
+		return parseDelimitedCommentBlock(lines, lineNumber);
+	}
+
+	const transaction = parseTransactionLike(lines, lineNumber, context);
+	if (transaction) {
+		return transaction;
+	}
+
+	if (isCommentLine(trimmed)) {
+		return parseCommentRun(lines, lineNumber);
+	}
+
+	const directive = parseDirectiveWithChildren(lines, lineNumber);
+	context.defaultYear = getDirectiveYear(directive) ?? context.defaultYear;
+	return directive;
+}
+
+/**
+ * Parses journal text into typed nodes with source spans. Every line of the input
+ * belongs to exactly one top-level node, so printing the raw text of all nodes
+ * reproduces the input. Year-less dates before any `Y` directive get the current
+ * year, as in hledger.
+ * @param text The journal text to parse
+ * @returns The parsed journal
+ */
+export function parseJournal(text: string): Journal {
+	const lines = text.split('\n');
+	const nodes: JournalNode[] = [];
+	const context: ParseContext = { defaultYear: new Date().getFullYear() };
+
+	let lineNumber = 0;
+	while (lineNumber < lines.length) {
+		const node = parseNode(lines, lineNumber, context);
+		nodes.push(node);
+		lineNumber = node.span.end.line + 1;
+	}
+
+	return { nodes, lineCount: lines.length };
+}
+
+/**
+ * Checks if a node is a dated transaction, periodic transaction or auto posting rule
+ */
+export function isTransactionLikeNode(node: JournalNode): node is TransactionLikeNode {
+	return node.type === 'transaction' || node.type === 'periodicTransaction' || node.type === 'autoPostingRule';
+}
+
+/**
+ * Finds the top-level node covering a line
+ * @param journal The parsed journal
+ * @param line Zero-based line number
+ * @returns The node containing the line, or null if the line is out of range
+ */
+export function findNodeAtLine(journal: Journal, line: number): JournalNode | null {
+	for (const node of journal.nodes) {
+		if (line >= node.span.start.line && line <= node.span.end.line) {
+			return node;
+		}
+	}
+	return null;
+}
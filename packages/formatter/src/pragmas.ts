@@ -0,0 +1,64 @@
+import type { Journal, JournalNode } from './ast';
+
+/**
+ * A formatter pragma comment: `off` and `on` delimit a region left as written,
+ * `ignore-next` leaves the entry after it as written
+ */
+export type FormatterPragma = 'off' | 'on' | 'ignore-next';
+
+const PRAGMA = /^[;#*]\s*hledger-fmt:\s*(off|on|ignore-next)$/;
+
+/**
+ * Reads a `; hledger-fmt: off`, `; hledger-fmt: on` or `; hledger-fmt: ignore-next` comment
+ * @param line A journal line
+ * @returns The pragma, or null if the line is not a pragma comment
+ */
+export function getFormatterPragma(line: string): FormatterPragma | null {
+	const match = line.trim().match(PRAGMA);
+	return match ? match[1] as FormatterPragma : null;
+}
+
+function getNodePragmas(node: JournalNode): FormatterPragma[] {
+	if (node.type !== 'commentBlock' || node.delimited) {
+		return [];
+	}
+	return node.comments
+		.map(comment => getFormatterPragma(comment.raw))
+		.filter((pragma): pragma is FormatterPragma => pragma !== null);
+}
+
+/**
+ * Finds the top-level nodes the formatter must leave as written: the comment lines holding
+ * pragmas, everything from `; hledger-fmt: off` up to the next `; hledger-fmt: on` (or the
+ * end of the journal), and the entry after `; hledger-fmt: ignore-next` with the blank
+ * lines before it
+ * @param journal The parsed journal
+ * @returns The nodes to print unchanged and keep in place when sorting
+ */
+export function findUnformattedNodes(journal: Journal): Set<JournalNode> {
+	const unformatted = new Set<JournalNode>();
+	let off = false;
+	let ignoreNext = false;
+
+	for (const node of journal.nodes) {
+		const pragmas = getNodePragmas(node);
+		if (off || pragmas.length > 0) {
+			unformatted.add(node);
+			for (const pragma of pragmas) {
+				if (pragma === 'ignore-next') {
+					ignoreNext = !off;
+				} else {
+					off = pragma === 'off';
+				}
+			}
+			continue;
+		}
+
+		if (ignoreNext) {
+			unformatted.add(node);
+			ignoreNext = node.type === 'blankRun';
+		}
+	}
+
+	return unformatted;
+}
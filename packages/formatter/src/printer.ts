@@ -0,0 +1,682 @@
+import type {
+	AutoPostingRuleHeader,
+	CommentNode,
+	DateComponents,
+	DirectiveNode,
+	Journal,
+	JournalNode,
+	PeriodicTransactionHeader,
+	PostingNode,
+	TransactionDate,
+	TransactionHeader,
+	TransactionLikeNode
+} from './ast';
+import { collectCommodityStyles, findDecimalMarkIndex, layoutAmountText, normalizeAmountText, type CommodityStyles } from './amount';
+import { extractDateComponents, isTransactionLikeNode } from './parser';
+import { getIndentString, getPayeeRewrite, normalizeFormatterOptions, type AmountAlignment, type CommentCharacter, type DateFormatStyle, type FormatterOptions, type NegativeCommodityStyle } from './options';
+import { findUnformattedNodes } from './pragmas';
+import { normalizeTransactionTags } from './tags';
+import { getDisplayWidth, padEndToWidth } from './width';
+
+export function formatDate(components: DateComponents, format: DateFormatStyle): string {
+	const year = components.year.toString().padStart(4, '0');
+	const month = components.month.toString().padStart(2, '0');
+	const day = components.day.toString().padStart(2, '0');
+
+	switch (format) {
+		case 'YYYY/MM/DD':
+			return `${year}/${month}/${day}`;
+		case 'YYYY.MM.DD':
+			return `${year}.${month}.${day}`;
+		case 'YYYY-MM-DD':
+		default:
+			return `${year}-${month}-${day}`;
+	}
+}
+
+/**
+ * Formats a transaction date in the configured style. Year-less dates keep the
+ * short form with the style's separator unless `expandShortDates` is set.
+ */
+function formatTransactionDate(date: TransactionDate, options: FormatterOptions): string {
+	const formatted = formatDate(date.components, options.dateFormat);
+	if (!date.short || options.expandShortDates) {
+		return formatted;
+	}
+	// Drop the four-digit year and its separator
+	return formatted.slice(5);
+}
+
+/**
+ * Lays out the amounts in an amount text with the configured sign placement, symbol
+ * spacing and symbol side, globally or per commodity
+ */
+export function formatAmountWithStyle(amount: string | null, options: FormatterOptions): { formatted: string | null } {
+	if (!amount) {
+		return { formatted: null };
+	}
+
+	return { formatted: layoutAmountText(amount, options) };
+}
+
+/**
+ * Returns the display width of the part of an amount before its first digit
+ */
+function getDigitsPrefixWidth(amount: string): number {
+	const trimmedAmount = amount.trimStart();
+	const matchIndex = trimmedAmount.search(/[0-9]/);
+	return getDisplayWidth(matchIndex === -1 ? trimmedAmount : trimmedAmount.slice(0, matchIndex));
+}
+
+/**
+ * Returns the offset, in display columns, within an amount of the point that lines up
+ * with the other amounts: the first digit, the decimal mark, or the end for right alignment
+ * @param amount The trimmed amount text
+ * @param alignment The amount alignment mode
+ * @param commodityStyles The journal's commodity styles, used to find decimal marks
+ */
+export function getAmountAnchorOffset(amount: string, alignment: AmountAlignment, commodityStyles: CommodityStyles | null): number {
+	switch (alignment) {
+		case 'decimal':
+			return getDisplayWidth(amount.slice(0, findDecimalMarkIndex(amount, commodityStyles)));
+		case 'right':
+			return getDisplayWidth(amount);
+		case 'fixedColumn':
+		case 'widest':
+		default:
+			return getDigitsPrefixWidth(amount);
+	}
+}
+
+// A comment marker, repeated for headings such as `;;; Section`
+const COMMENT_MARKER = /^([#;*])\1*/;
+
+/**
+ * Rewrites the marker of a comment as `marker`, repeated as often as the original one,
+ * followed by a single space
+ * @param comment The comment from its marker on
+ */
+function normalizeCommentMarker(comment: string, marker: CommentCharacter): string {
+	const markerRun = comment.match(COMMENT_MARKER)?.[0];
+	if (!markerRun) {
+		return comment;
+	}
+	const text = comment.slice(markerRun.length).trim();
+	const newMarker = marker.repeat(markerRun.length);
+	return text ? `${newMarker} ${text}` : newMarker;
+}
+
+/**
+ * Formats a comment line, rewriting its marker when comment normalization is on. Only
+ * `;` is valid inside transactions and directives, and `*` only at column 0.
+ * @param line The comment line, with its indentation
+ * @param topLevel Whether the comment stands outside any transaction or directive
+ */
+function formatCommentLine(line: string, topLevel: boolean, options: FormatterOptions): string {
+	if (!options.normalizeComments) {
+		return line;
+	}
+	const indentation = line.slice(0, line.length - line.trimStart().length);
+	const marker = !topLevel || (options.commentCharacter === '*' && indentation) ? ';' : options.commentCharacter;
+	return `${indentation}${normalizeCommentMarker(line.trim(), marker)}`;
+}
+
+/**
+ * Appends the trailing comment of a header or posting to its line
+ * @param line The line without its comment
+ * @param source The header or posting the comment belongs to
+ * @param commentColumn The display column to start the comment at, or null to keep the gap as written
+ */
+function appendTrailingComment(
+	line: string,
+	source: { comment: string | null; commentGap: string },
+	commentColumn: number | null,
+	options: FormatterOptions
+): string {
+	if (source.comment === null) {
+		return line;
+	}
+	const comment = options.normalizeComments ? normalizeCommentMarker(source.comment, ';') : source.comment;
+	if (commentColumn === null) {
+		return `${line}${source.commentGap}${comment}`;
+	}
+	return `${line}${' '.repeat(Math.max(2, commentColumn - getDisplayWidth(line, options.tabWidth)))}${comment}`;
+}
+
+function collapseWhitespace(text: string): string {
+	return text.trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Formats a transaction description, applying the payee rewrites and, when description
+ * normalization is on, collapsing whitespace and writing `payee | note` with single spaces
+ */
+function formatTransactionDescription(header: TransactionHeader, options: FormatterOptions): string {
+	const rewrite = getPayeeRewrite(options, header.payee);
+	if (!options.normalizeDescriptions) {
+		// The description starts with the payee, so only the payee is replaced
+		return rewrite === null ? header.description : `${rewrite}${header.description.slice(header.payee.length)}`;
+	}
+
+	const payee = collapseWhitespace(rewrite ?? header.payee);
+	if (header.note === null) {
+		return payee;
+	}
+	return [payee, '|', collapseWhitespace(header.note)].filter(Boolean).join(' ');
+}
+
+/**
+ * Formats a transaction header by normalizing spaces between date, status marker, and description
+ * @param header The parsed transaction header
+ * @param commentColumn The display column trailing comments start at, or null to keep them as written
+ * @returns Formatted transaction header line
+ */
+function formatTransactionHeader(header: TransactionHeader, options: FormatterOptions, commentColumn: number | null): string {
+	let dates = formatTransactionDate(header.date, options);
+	if (header.secondaryDate) {
+		dates += `=${formatTransactionDate(header.secondaryDate, options)}`;
+	}
+
+	const bodySegments: string[] = [];
+	if (header.code !== null) {
+		bodySegments.push(`(${header.code})`);
+	}
+	const description = formatTransactionDescription(header, options);
+	if (description) {
+		bodySegments.push(description);
+	}
+	const body = bodySegments.join(' ');
+
+	const statusSpaced = options.statusSpacing === 'spaced' || (options.statusSpacing === 'preserve' && header.statusSpaced);
+	const segments: string[] = [dates];
+	if (header.status && body && !statusSpaced) {
+		segments.push(`${header.status}${body}`);
+	} else {
+		segments.push(...[header.status, body].filter(Boolean));
+	}
+
+	// Transaction headers should always start at column 0 (no leading whitespace)
+	return appendTrailingComment(segments.join(' '), header, commentColumn, options);
+}
+
+/**
+ * Formats a periodic transaction header as `~ PERIOD  DESCRIPTION`, keeping the
+ * two-space separator hledger requires before the description
+ */
+function formatPeriodicTransactionHeader(header: PeriodicTransactionHeader, options: FormatterOptions, commentColumn: number | null): string {
+	const period = header.period.split(/\s+/).join(' ');
+	const baseHeader = header.description ? `~ ${period}  ${header.description}` : `~ ${period}`;
+	return appendTrailingComment(baseHeader, header, commentColumn, options);
+}
+
+/**
+ * Formats an auto posting rule header as `= QUERY`
+ */
+function formatAutoPostingRuleHeader(header: AutoPostingRuleHeader, options: FormatterOptions, commentColumn: number | null): string {
+	return appendTrailingComment(`= ${header.query}`, header, commentColumn, options);
+}
+
+function formatTransactionLikeHeader(transaction: TransactionLikeNode, options: FormatterOptions, commentColumn: number | null): string {
+	switch (transaction.type) {
+		case 'periodicTransaction':
+			return formatPeriodicTransactionHeader(transaction.header, options, commentColumn);
+		case 'autoPostingRule':
+			return formatAutoPostingRuleHeader(transaction.header, options, commentColumn);
+		case 'transaction':
+		default:
+			return formatTransactionHeader(transaction.header, options, commentColumn);
+	}
+}
+
+/**
+ * Formats the account of a posting with its status marker, followed by a single space,
+ * and its virtual posting brackets
+ */
+export function formatPostingAccount(posting: Pick<PostingNode, 'status' | 'postingType' | 'account'>): string {
+	const status = posting.status ? `${posting.status} ` : '';
+	switch (posting.postingType) {
+		case 'virtual':
+			return `${status}(${posting.account})`;
+		case 'balancedVirtual':
+			return `${status}[${posting.account}]`;
+		case 'regular':
+		default:
+			return `${status}${posting.account}`;
+	}
+}
+
+/**
+ * Formats a single transaction, periodic transaction or auto posting rule by aligning account names and amounts
+ * @param transaction The parsed transaction
+ * @param options Formatter options to drive indentation and amount alignment
+ * @param commodityStyles The journal's commodity styles, or null when neither amount normalization nor decimal alignment needs them
+ * @returns Formatted transaction lines
+ */
+function formatTransaction(transaction: TransactionLikeNode, options: FormatterOptions, commodityStyles: CommodityStyles | null): string[] {
+	const indentStr = getIndentString(options);
+	const indentWidth = getDisplayWidth(indentStr, options.tabWidth);
+	const normalizeAmount = (amount: string | null): string | null => amount && commodityStyles && options.normalizeAmounts
+		? normalizeAmountText(amount, commodityStyles, options.negativeCommodityStyle)
+		: amount;
+	const preparedPostings = transaction.postings.map(posting => {
+		const { formatted: amount } = formatAmountWithStyle(
+			posting.amount && posting.amount.length > 0 ? normalizeAmount(posting.amount) : null,
+			options
+		);
+		const { formatted: assertedAmount } = formatAmountWithStyle(normalizeAmount(posting.assertion), options);
+		const assertion = posting.assertionOperator && assertedAmount ? `${posting.assertionOperator} ${assertedAmount}` : null;
+
+		// Without a separate assertion column the assertion is aligned as part of the amount
+		const alignedAmount = options.alignBalanceAssertions
+			? amount?.trim() || null
+			: [amount?.trim(), assertion].filter(Boolean).join(' ') || null;
+
+		return {
+			posting,
+			accountText: formatPostingAccount(posting),
+			formattedAmount: alignedAmount,
+			anchorOffset: alignedAmount ? getAmountAnchorOffset(alignedAmount, options.amountAlignment, commodityStyles) : 0,
+			assertion: options.alignBalanceAssertions ? assertion : null
+		};
+	});
+
+	const referenceAccountWidth = preparedPostings.reduce((max, prepared) => Math.max(max, getDisplayWidth(prepared.accountText)), 0);
+
+	// The column every amount's anchor (first digit, decimal mark or end) is lined up on
+	let anchorColumn: number;
+	if (options.amountAlignment === 'fixedColumn') {
+		anchorColumn = options.amountColumnPosition;
+	} else {
+		const anchorColumnCandidates = preparedPostings
+			.filter(prepared => prepared.formattedAmount)
+			.map(prepared => indentWidth + getDisplayWidth(prepared.accountText) + prepared.anchorOffset + 2);
+		const fallbackColumn = indentWidth + referenceAccountWidth + 2;
+		anchorColumn = anchorColumnCandidates.length > 0 ? Math.max(fallbackColumn, ...anchorColumnCandidates) : fallbackColumn;
+	}
+
+	const amountLines = preparedPostings.map(prepared => {
+		const amount = prepared.formattedAmount;
+		const accountText = `${indentStr}${prepared.accountText}`;
+		if (!amount) {
+			return accountText;
+		}
+
+		const paddingTarget = anchorColumn - getDisplayWidth(accountText, options.tabWidth) - prepared.anchorOffset;
+		return `${accountText}${' '.repeat(Math.max(2, paddingTarget))}${amount}`;
+	});
+
+	// The assertion column starts one space after the longest amount, or two spaces
+	// after the account of a bare balance assignment
+	const assertionColumn = Math.max(0, ...preparedPostings.map((prepared, index) => {
+		if (!prepared.assertion) {
+			return 0;
+		}
+		return getDisplayWidth(amountLines[index], options.tabWidth) + (prepared.formattedAmount ? 1 : 2);
+	}));
+
+	const postingLines = amountLines.map((line, index) => {
+		const { assertion } = preparedPostings[index];
+		return assertion ? `${padEndToWidth(line, assertionColumn, options.tabWidth)}${assertion}` : line;
+	});
+
+	// Trailing comments start at the configured column or two spaces after the widest posting
+	let commentColumn: number | null = null;
+	if (options.commentAlignment === 'fixedColumn') {
+		commentColumn = options.commentColumnPosition;
+	} else if (options.commentAlignment === 'widest') {
+		commentColumn = Math.max(0, ...postingLines.map(line => getDisplayWidth(line, options.tabWidth))) + 2;
+	}
+
+	const formattedLines: string[] = [formatTransactionLikeHeader(transaction, options, commentColumn)];
+	let postingIndex = 0;
+	for (const child of transaction.children) {
+		if (child.type === 'comment') {
+			// Comment lines that are rewritten take the posting indentation
+			const line = options.normalizeComments ? `${indentStr}${child.raw.trim()}` : child.raw;
+			formattedLines.push(formatCommentLine(line, false, options));
+			continue;
+		}
+
+		const line = postingLines[postingIndex++];
+		formattedLines.push(appendTrailingComment(line, child, commentColumn, options));
+	}
+
+	return formattedLines;
+}
+
+// Directives whose layout the formatter normalizes; anything else is printed as written
+const FORMATTED_DIRECTIVES = new Set(['account', 'alias', 'apply', 'commodity', 'D', 'decimal-mark', 'end', 'include', 'P', 'payee', 'tag', 'Y', 'year']);
+
+function isFormattedDirective(directive: DirectiveNode): boolean {
+	return FORMATTED_DIRECTIVES.has(directive.keyword.replace(/^!/, ''));
+}
+
+/**
+ * Splits a trailing `;` comment off a directive argument
+ */
+function splitDirectiveComment(argument: string): { value: string; comment: string | null } {
+	const match = argument.match(/^(.*?)\s*(;.*)$/);
+	if (!match) {
+		return { value: argument, comment: null };
+	}
+	return { value: match[1], comment: match[2] };
+}
+
+function joinDirectiveComment(line: string, comment: string | null): string {
+	return comment === null ? line : `${line}  ${comment}`;
+}
+
+function formatDirectiveChild(child: DirectiveNode | CommentNode, indentStr: string, options: FormatterOptions): string {
+	if (child.type === 'comment') {
+		return formatCommentLine(`${indentStr}${child.raw.trim()}`, false, options);
+	}
+	const { value, comment } = splitDirectiveComment(child.argument);
+	const line = value ? `${indentStr}${child.keyword} ${value}` : `${indentStr}${child.keyword}`;
+	return joinDirectiveComment(line, comment);
+}
+
+/**
+ * Normalizes the argument of a directive: single spaces inside multi-word keywords
+ * (`apply account`, `end apply account`) and around the `=` of a plain alias.
+ */
+function normalizeDirectiveArgument(keyword: string, argument: string): string {
+	const bareKeyword = keyword.replace(/^!/, '');
+	if (bareKeyword === 'apply' || bareKeyword === 'end') {
+		const match = argument.match(/^((?:apply\s+)?(?:account|aliases|tag|comment))(?:\s+(.*))?$/);
+		if (match) {
+			const words = match[1].split(/\s+/).join(' ');
+			return match[2] ? `${words} ${match[2]}` : words;
+		}
+	}
+
+	if (bareKeyword === 'alias' && !argument.startsWith('/')) {
+		const equalsIndex = argument.indexOf('=');
+		if (equalsIndex !== -1) {
+			return `${argument.slice(0, equalsIndex).trim()} = ${argument.slice(equalsIndex + 1).trim()}`;
+		}
+	}
+
+	return argument;
+}
+
+/**
+ * Formats a directive by normalizing keyword spacing and re-indenting its subdirectives
+ * @param directive The parsed directive
+ * @param options Formatter options to drive subdirective indentation
+ * @returns Formatted directive lines
+ */
+function formatDirective(directive: DirectiveNode, options: FormatterOptions): string[] {
+	if (directive.span.start.column > 0 || !isFormattedDirective(directive)) {
+		return directive.raw.split('\n');
+	}
+
+	const { value, comment } = splitDirectiveComment(directive.argument);
+	const argument = normalizeDirectiveArgument(directive.keyword, value);
+	const firstLine = argument ? `${directive.keyword} ${argument}` : directive.keyword;
+
+	const indentStr = getIndentString(options);
+	return [
+		joinDirectiveComment(firstLine, comment),
+		...directive.children.map(child => formatDirectiveChild(child, indentStr, options))
+	];
+}
+
+interface ParsedPriceDirective {
+	date: string;
+	commodity: string;
+	price: string;
+	comment: string | null;
+}
+
+/**
+ * Splits a `P DATE [TIME] COMMODITY PRICE` directive into its columns
+ * @returns The columns, or null if the directive does not follow that shape
+ */
+function parsePriceDirective(directive: DirectiveNode, options: FormatterOptions): ParsedPriceDirective | null {
+	const { value, comment } = splitDirectiveComment(directive.argument);
+	const dateInfo = extractDateComponents(value);
+	if (!dateInfo) {
+		return null;
+	}
+
+	const match = value.slice(dateInfo.raw.length).match(/^((?:\s+\d{1,2}:\d{2}(?::\d{2})?)?)\s+("[^"]+"|\S+)\s+(\S.*)$/);
+	if (!match) {
+		return null;
+	}
+
+	const time = match[1].trim();
+	const formattedDate = formatDate(dateInfo.components, options.dateFormat);
+	const { formatted: price } = formatAmountWithStyle(match[3].trim(), options);
+	return {
+		date: time ? `${formattedDate} ${time}` : formattedDate,
+		commodity: match[2],
+		price: price ?? match[3].trim(),
+		comment
+	};
+}
+
+/**
+ * Formats a run of adjacent `P` directives so their dates, commodities and prices
+ * line up in columns, with prices aligned on their first digit
+ * @param directives Adjacent price directives
+ * @param options Formatter options for date and amount styles
+ * @returns Formatted lines for each directive, in order
+ */
+function formatPriceDirectives(directives: DirectiveNode[], options: FormatterOptions): string[][] {
+	const parsed = directives.map(directive => parsePriceDirective(directive, options));
+	const aligned = parsed.filter((entry): entry is ParsedPriceDirective => entry !== null);
+	const dateWidth = Math.max(0, ...aligned.map(entry => entry.date.length));
+	const commodityWidth = Math.max(0, ...aligned.map(entry => getDisplayWidth(entry.commodity)));
+	const digitsPrefixWidth = Math.max(0, ...aligned.map(entry => getDigitsPrefixWidth(entry.price)));
+
+	return directives.map((directive, index) => {
+		const entry = parsed[index];
+		if (!entry) {
+			return formatDirective(directive, options);
+		}
+
+		const pricePadding = ' '.repeat(digitsPrefixWidth - getDigitsPrefixWidth(entry.price));
+		const line = `${directive.keyword} ${entry.date.padEnd(dateWidth)} ${padEndToWidth(entry.commodity, commodityWidth)} ${pricePadding}${entry.price}`;
+		return [joinDirectiveComment(line, entry.comment)];
+	});
+}
+
+function isPriceDirective(node: JournalNode): boolean {
+	return node.type === 'directive' && node.keyword === 'P' && node.span.start.column === 0;
+}
+
+/**
+ * Formats every directive in the journal, grouping adjacent `P` directives into aligned blocks
+ * @returns Formatted lines keyed by directive node
+ */
+function formatDirectives(nodes: JournalNode[], unformatted: Set<JournalNode>, options: FormatterOptions): Map<DirectiveNode, string[]> {
+	const formatted = new Map<DirectiveNode, string[]>();
+	const isFormattedPriceDirective = (node: JournalNode): boolean => isPriceDirective(node) && !unformatted.has(node);
+	let index = 0;
+	while (index < nodes.length) {
+		const node = nodes[index];
+		if (isFormattedPriceDirective(node)) {
+			const block: DirectiveNode[] = [];
+			while (index < nodes.length && isFormattedPriceDirective(nodes[index])) {
+				block.push(nodes[index] as DirectiveNode);
+				index++;
+			}
+			formatPriceDirectives(block, options).forEach((lines, blockIndex) => formatted.set(block[blockIndex], lines));
+			continue;
+		}
+
+		if (node.type === 'directive' && !unformatted.has(node)) {
+			formatted.set(node, formatDirective(node, options));
+		}
+		index++;
+	}
+	return formatted;
+}
+
+/**
+ * Returns the source text of a node exactly as it was parsed
+ * @param node The node to print
+ * @returns The raw node text
+ */
+export function printNode(node: JournalNode): string {
+	return node.raw;
+}
+
+/**
+ * Returns the blank lines to print between two nodes
+ * @param previous The node before the blank lines
+ * @param next The node after them
+ * @param blankLines The blank lines written between the nodes
+ */
+function getSeparatorLines(previous: JournalNode, next: JournalNode, blankLines: string[], options: FormatterOptions): string[] {
+	const separated = blankLines.length > 0;
+	// null keeps the blank lines as written
+	let count: number | null = null;
+	if (isTransactionLikeNode(previous) && (separated || isTransactionLikeNode(next))) {
+		count = options.blankLinesBetweenTransactions;
+	}
+
+	const directiveBoundary = (previous.type === 'directive') !== (next.type === 'directive');
+	if (options.blankLinesAroundDirectives !== null && directiveBoundary
+		&& (separated || isTransactionLikeNode(previous) || isTransactionLikeNode(next))) {
+		count = options.blankLinesAroundDirectives;
+	}
+
+	const lines = count === null ? blankLines : new Array<string>(count).fill('');
+	return options.maxBlankLines === null ? lines : lines.slice(0, options.maxBlankLines);
+}
+
+/**
+ * What formatting a single node needs to know about the rest of the journal
+ */
+interface JournalFormatContext {
+	options: FormatterOptions;
+	/** Nodes under a formatter pragma, printed as written */
+	unformatted: Set<JournalNode>;
+	formattedDirectives: Map<DirectiveNode, string[]>;
+	commodityStyles: CommodityStyles | null;
+}
+
+function createFormatContext(journal: Journal, options: FormatterOptions): JournalFormatContext {
+	const unformatted = findUnformattedNodes(journal);
+	return {
+		options,
+		unformatted,
+		formattedDirectives: formatDirectives(journal.nodes, unformatted, options),
+		commodityStyles: options.normalizeAmounts || options.amountAlignment === 'decimal' ? collectCommodityStyles(journal) : null
+	};
+}
+
+function formatNodeLines(node: JournalNode, context: JournalFormatContext): string[] {
+	const { options } = context;
+	if (context.unformatted.has(node)) {
+		return printNode(node).split('\n');
+	}
+	if (isTransactionLikeNode(node)) {
+		const transaction = options.normalizeTags ? normalizeTransactionTags(node, options) : node;
+		return formatTransaction(transaction, options, context.commodityStyles);
+	}
+	if (node.type === 'directive') {
+		return context.formattedDirectives.get(node) ?? printNode(node).split('\n');
+	}
+	if (node.type === 'commentBlock' && !node.delimited) {
+		return node.comments.map(comment => formatCommentLine(comment.raw, true, options));
+	}
+	return printNode(node).split('\n');
+}
+
+/**
+ * Formats some top-level nodes of a journal the way printJournal() would, still taking
+ * commodity styles, price directive alignment and pragmas from the whole journal.
+ * Blank lines between nodes are not touched.
+ * @param journal The parsed journal
+ * @param nodes The nodes of the journal to format
+ * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
+ * @returns The formatted lines of each node
+ */
+export function formatJournalNodes(journal: Journal, nodes: JournalNode[], optionsOrColumn?: number | Partial<FormatterOptions>): Map<JournalNode, string[]> {
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	const context = createFormatContext(journal, options);
+	const formatted = new Map<JournalNode, string[]>();
+	for (const node of nodes) {
+		const lines = formatNodeLines(node, context);
+		const trim = options.trimTrailingWhitespace && !context.unformatted.has(node);
+		formatted.set(node, trim ? lines.map(line => line.trimEnd()) : lines);
+	}
+	return formatted;
+}
+
+/**
+ * Prints a parsed journal. Without options the source text is reproduced unchanged;
+ * with options transactions are formatted and blank lines between entries normalized,
+ * except where `; hledger-fmt: off` / `ignore-next` pragmas say otherwise.
+ * @param journal The parsed journal
+ * @param optionsOrColumn Optional formatter options or an amount column position for backward compatibility
+ * @returns The printed journal text
+ */
+export function printJournal(journal: Journal, optionsOrColumn?: number | Partial<FormatterOptions>): string {
+	if (optionsOrColumn === undefined) {
+		return journal.nodes.map(printNode).join('\n');
+	}
+
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	const context = createFormatContext(journal, options);
+	const { unformatted } = context;
+	const formattedLines: string[] = [];
+	// Indexes into formattedLines of lines printed as written
+	const verbatimLines = new Set<number>();
+	let previous: JournalNode | null = null;
+	// The blank lines written since the previous node
+	let blankLines: string[] = [];
+
+	for (const node of journal.nodes) {
+		if (node.type === 'blankRun') {
+			blankLines.push(...node.raw.split('\n'));
+			continue;
+		}
+
+		// Leading blank lines are dropped; blank lines between unformatted nodes are kept
+		if (previous && unformatted.has(previous) && unformatted.has(node)) {
+			formattedLines.push(...blankLines);
+		} else if (previous) {
+			formattedLines.push(...getSeparatorLines(previous, node, blankLines, options));
+		}
+		blankLines = [];
+
+		for (const line of formatNodeLines(node, context)) {
+			if (unformatted.has(node)) {
+				verbatimLines.add(formattedLines.length);
+			}
+			formattedLines.push(line);
+		}
+		previous = node;
+	}
+
+	// A transaction always ends with a newline; anything else keeps the blank lines after it
+	if (previous && isTransactionLikeNode(previous) && !unformatted.has(previous)) {
+		formattedLines.push('');
+	} else if (previous) {
+		formattedLines.push(...blankLines);
+	}
+
+	if (options.trimTrailingWhitespace) {
+		for (let i = 0; i < formattedLines.length; i++) {
+			if (!verbatimLines.has(i)) {
+				formattedLines[i] = formattedLines[i].trimEnd();
+			}
+		}
+	}
+
+	while (formattedLines.length > 1 && formattedLines[formattedLines.length - 1] === '' && formattedLines[formattedLines.length - 2] === '') {
+		formattedLines.pop();
+	}
+
+	if (options.ensureFinalNewline && previous) {
+		while (formattedLines.length > 0 && formattedLines[formattedLines.length - 1] === '') {
+			formattedLines.pop();
+		}
+		formattedLines.push('');
+	}
+
+	return formattedLines.join('\n');
+}
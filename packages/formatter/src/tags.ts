@@ -0,0 +1,225 @@
+import type { CommentNode, PostingNode, Tag, TransactionLikeNode } from './ast';
+import { getIndentString, type FormatterOptions } from './options';
+
+// A tag name is a word directly followed by `:`, at the start of the comment or after whitespace or a comma
+const TAG = /(?:^|[\s,])([^\s,:]+):([^,]*)/g;
+const FIRST_TAG = /(?:^|[\s,])[^\s,:]+:/;
+const TAG_SEGMENT = /^\s*([^\s,:]+):(.*)$/;
+const COMMENT_MARKER = /^[;#*]+/;
+
+/**
+ * The free text of a comment and the tags after it
+ */
+interface TaggedComment {
+	/** The text before the first tag, without trailing whitespace; may end with a comma */
+	text: string;
+	tags: Tag[];
+}
+
+function stripCommentMarker(comment: string): string {
+	return comment.replace(COMMENT_MARKER, '');
+}
+
+/**
+ * Finds the hledger tags in a comment: words directly followed by `:`, each with the
+ * value up to the next comma, e.g. `project:house` and `receipt:2024/01.pdf` in
+ * `; project:house, receipt:2024/01.pdf`
+ * @param comment The comment, with or without its marker
+ * @returns The tags in order, with trimmed values
+ */
+export function parseTags(comment: string | null): Tag[] {
+	if (comment === null) {
+		return [];
+	}
+
+	const tags: Tag[] = [];
+	for (const match of stripCommentMarker(comment).matchAll(TAG)) {
+		tags.push({ name: match[1], value: match[2].trim() });
+	}
+	return tags;
+}
+
+/**
+ * Returns the free text of a comment before its first tag, without the marker
+ * @param comment The comment, with or without its marker
+ */
+export function getCommentText(comment: string): string {
+	const body = stripCommentMarker(comment.trim());
+	const firstTag = body.match(FIRST_TAG);
+	return (firstTag?.index === undefined ? body : body.slice(0, firstTag.index)).trim();
+}
+
+/**
+ * Splits a comment into the free text before its first tag and its tags
+ * @param comment The comment, with or without its marker
+ * @returns The parts, or null when free text follows the tags, since rewriting the tags would move it
+ */
+function splitTaggedComment(comment: string): TaggedComment | null {
+	const body = stripCommentMarker(comment).trim();
+	const firstTag = body.match(FIRST_TAG);
+	if (!firstTag || firstTag.index === undefined) {
+		return { text: body, tags: [] };
+	}
+
+	// The match includes the whitespace or comma before the tag name
+	const tagsStart = firstTag.index + (firstTag[0].length - firstTag[0].trimStart().replace(/^,/, '').length);
+	const tags: Tag[] = [];
+	for (const segment of body.slice(tagsStart).split(',')) {
+		if (!segment.trim()) {
+			continue;
+		}
+		const match = segment.match(TAG_SEGMENT);
+		if (!match) {
+			return null;
+		}
+		tags.push({ name: match[1], value: match[2].trim() });
+	}
+
+	return { text: body.slice(0, tagsStart).trimEnd(), tags };
+}
+
+function formatTag(tag: Tag): string {
+	return `${tag.name}:${tag.value}`;
+}
+
+/**
+ * Drops repeated tags with the same name and value and, optionally, sorts tags by name
+ */
+function normalizeTagList(tags: Tag[], sort: boolean): Tag[] {
+	const seen = new Set<string>();
+	const unique = tags.filter(tag => {
+		const key = formatTag(tag);
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+	return sort ? unique.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)) : unique;
+}
+
+/**
+ * Renders a comment from its free text and tags, keeping the marker of `template`
+ * @returns The comment, or null when there is neither text nor a tag
+ */
+function formatTaggedComment(template: string, tagged: TaggedComment): string | null {
+	const text = tagged.tags.length > 0 ? tagged.text : tagged.text.replace(/,$/, '');
+	const body = [text, tagged.tags.map(formatTag).join(', ')].filter(Boolean).join(' ');
+	if (!body) {
+		return null;
+	}
+	const marker = template.match(COMMENT_MARKER)?.[0] ?? ';';
+	return `${marker} ${body}`;
+}
+
+/**
+ * A header or posting with the comment lines that follow it
+ */
+interface CommentGroup {
+	owner: Pick<PostingNode, 'span' | 'comment' | 'commentGap' | 'tags'>;
+	comments: CommentNode[];
+}
+
+function isTagOnlyComment(comment: CommentNode): boolean {
+	const tagged = splitTaggedComment(comment.raw.trim());
+	return tagged !== null && !tagged.text && tagged.tags.length > 0;
+}
+
+/**
+ * Rewrites the tags of a comment line at the posting indentation, or returns it
+ * unchanged when it has none
+ */
+function normalizeCommentLineTags(comment: CommentNode, tags: Tag[], text: string, options: FormatterOptions, indentStr: string): CommentNode {
+	const formatted = formatTaggedComment(comment.raw.trim(), { text, tags: normalizeTagList(tags, options.sortTags) });
+	if (formatted === null) {
+		return comment;
+	}
+	return { ...comment, raw: `${indentStr}${formatted}`, text: stripCommentMarker(formatted).trim(), tags: parseTags(formatted) };
+}
+
+function normalizeCommentLine(comment: CommentNode, options: FormatterOptions, indentStr: string): CommentNode {
+	const tagged = splitTaggedComment(comment.raw.trim());
+	return tagged && tagged.tags.length > 0 ? normalizeCommentLineTags(comment, tagged.tags, tagged.text, options, indentStr) : comment;
+}
+
+/**
+ * Rewrites the tags of one header or posting group, moving tags between its trailing
+ * comment and its tag-only comment lines as configured
+ */
+function normalizeCommentGroup(group: CommentGroup, options: FormatterOptions, indentStr: string): CommentGroup {
+	const ownerTagged = group.owner.comment === null ? { text: '', tags: [] } : splitTaggedComment(group.owner.comment);
+	if (!ownerTagged) {
+		return { owner: group.owner, comments: group.comments.map(comment => normalizeCommentLine(comment, options, indentStr)) };
+	}
+
+	let comments = group.comments;
+	let ownerTags = ownerTagged.tags;
+	if (options.tagPlacement === 'inline') {
+		const tagLines = comments.filter(isTagOnlyComment);
+		ownerTags = [...ownerTags, ...tagLines.flatMap(comment => parseTags(comment.raw))];
+		comments = comments.filter(comment => !tagLines.includes(comment));
+	} else if (options.tagPlacement === 'separateLine' && ownerTags.length > 0) {
+		const tagLine = comments.find(isTagOnlyComment) ?? null;
+		const target: CommentNode = tagLine ?? {
+			type: 'comment',
+			span: group.owner.span,
+			raw: ';',
+			marker: ';',
+			text: '',
+			tags: []
+		};
+		const moved = normalizeCommentLineTags(target, [...ownerTags, ...target.tags], '', options, indentStr);
+		comments = tagLine
+			? comments.map(comment => (comment === tagLine ? moved : comment))
+			: [moved, ...comments];
+		ownerTags = [];
+	}
+
+	let owner = group.owner;
+	if (ownerTags.length > 0 || ownerTagged.tags.length > 0) {
+		const tags = normalizeTagList(ownerTags, options.sortTags);
+		const comment = formatTaggedComment(group.owner.comment ?? ';', { text: ownerTagged.text, tags });
+		const commentGap = comment === null ? '' : group.owner.comment === null ? '  ' : group.owner.commentGap;
+		owner = { ...group.owner, comment, commentGap, tags };
+	}
+
+	return { owner, comments: comments.map(comment => normalizeCommentLine(comment, options, indentStr)) };
+}
+
+/**
+ * Normalizes the tags of a transaction: `name:value` with comma separation, without
+ * repeated tags, optionally sorted by name, and moved between trailing comments and
+ * tag-only comment lines according to `tagPlacement`. Comments with free text after
+ * their tags are left as written.
+ * @param transaction The parsed transaction
+ * @param options Formatter options
+ * @returns A copy of the transaction with rewritten comments
+ */
+export function normalizeTransactionTags<T extends TransactionLikeNode>(transaction: T, options: FormatterOptions): T {
+	const indentStr = getIndentString(options);
+	const groups: Array<CommentGroup & { posting: PostingNode | null }> = [{ owner: transaction.header, comments: [], posting: null }];
+	for (const child of transaction.children) {
+		if (child.type === 'comment') {
+			groups[groups.length - 1].comments.push(child);
+		} else {
+			groups.push({ owner: child, comments: [], posting: child });
+		}
+	}
+
+	const children: Array<PostingNode | CommentNode> = [];
+	const postings: PostingNode[] = [];
+	let header = transaction.header;
+	for (const group of groups) {
+		const { owner, comments } = normalizeCommentGroup(group, options, indentStr);
+		if (group.posting) {
+			const posting = { ...group.posting, ...owner };
+			children.push(posting);
+			postings.push(posting);
+		} else {
+			header = { ...transaction.header, ...owner };
+		}
+		children.push(...comments);
+	}
+
+	return { ...transaction, header, children, postings };
+}
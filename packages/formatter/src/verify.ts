@@ -0,0 +1,331 @@
+import type { CommentNode, DirectiveNode, Journal, JournalNode, PostingNode, TransactionDate, TransactionLikeNode } from './ast';
+import { collectCommodityStyles, parseAmount, parsePostingAmount, type CommodityStyles, type ParsedAmount } from './amount';
+import { formatDecimal, trimDecimal } from './decimal';
+import { readSourceText } from './newline';
+import { getPayeeRewrite, normalizeFormatterOptions, type FormatterOptions } from './options';
+import { extractDateComponents, parseJournal } from './parser';
+import { formatPostingAccount } from './printer';
+import { getCommentText, parseTags } from './tags';
+
+/**
+ * An entry of one journal with no matching entry in the other
+ */
+export interface JournalDifference {
+	/** Zero-based line of the entry in the original text, or null when it only appears in the result */
+	line: number | null;
+	/** Zero-based line of the entry in the result, or null when it only appears in the original */
+	resultLine: number | null;
+	message: string;
+}
+
+/**
+ * The outcome of comparing a journal with its formatted or sorted version
+ */
+export interface EquivalenceReport {
+	/** True when both journals hold the same entries */
+	equivalent: boolean;
+	differences: JournalDifference[];
+}
+
+/**
+ * What an entry means, as labelled values: two entries are equivalent when their
+ * fields are equal
+ */
+type Fingerprint = Array<[label: string, value: string]>;
+
+interface EntryFingerprint {
+	/** How the entry is named in messages, e.g. `Transaction "2025-03-01 Lunch"` */
+	name: string;
+	/** Entries with the same identity are compared field by field when they differ */
+	identity: string | null;
+	line: number;
+	fields: Fingerprint;
+	key: string;
+}
+
+function collapseWhitespace(text: string): string {
+	return text.trim().split(/\s+/).join(' ');
+}
+
+function formatDateKey(date: TransactionDate): string {
+	const { year, month, day } = date.components;
+	return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function formatAmountKey(amount: ParsedAmount): string {
+	return `${formatDecimal(trimDecimal(amount.value))} ${amount.currency}`;
+}
+
+/**
+ * Reads an amount as its quantity, commodity, lot annotations and cost, so the same amount
+ * written in another style gives the same key
+ */
+function getPostingAmountKey(text: string | null, styles: CommodityStyles): string {
+	if (text === null) {
+		return '';
+	}
+	const parsed = parsePostingAmount(text, styles);
+	if (!parsed) {
+		const amount = parseAmount(text, styles);
+		return amount ? formatAmountKey(amount) : collapseWhitespace(text);
+	}
+
+	const parts = [formatAmountKey(parsed.amount)];
+	if (parsed.lotPrice) {
+		parts.push(`{${parsed.lotPrice.kind} ${parsed.lotPrice.fixed ? '=' : ''}${formatAmountKey(parsed.lotPrice.amount)}}`);
+	}
+	if (parsed.lotDate !== null) {
+		parts.push(`[${parsed.lotDate}]`);
+	}
+	if (parsed.cost) {
+		parts.push(`@${parsed.cost.kind} ${formatAmountKey(parsed.cost.amount)}`);
+	}
+	return parts.join(' ');
+}
+
+function getCommentKey(comment: string): string {
+	return collapseWhitespace(getCommentText(comment)).replace(/,$/, '');
+}
+
+/**
+ * Describes the comments of a transaction header or posting: its trailing comment and the
+ * comment lines below it. Tags may move between them and repeated tags may be dropped, so
+ * tags are compared as a set and comment text without its tags.
+ */
+function getCommentGroupFields(label: string, trailingComment: string | null, comments: CommentNode[]): Fingerprint {
+	const texts = [trailingComment, ...comments.map(comment => comment.raw)]
+		.filter((comment): comment is string => comment !== null);
+	const tags = new Set(texts.flatMap(text => parseTags(text).map(tag => `${tag.name}:${tag.value}`)));
+	const freeTexts = texts.map(getCommentKey).filter(Boolean);
+	return [
+		[`${label} tags`, [...tags].sort().join(', ')],
+		[`${label} comments`, freeTexts.join(' | ')]
+	];
+}
+
+function getPostingFields(label: string, posting: PostingNode, comments: CommentNode[], styles: CommodityStyles): Fingerprint {
+	if (posting.separatorGuessed) {
+		// hledger reads an amount after a single space as part of the account name, so
+		// separating the two changes the posting
+		const content = posting.comment === null ? posting.raw : posting.raw.slice(0, posting.raw.lastIndexOf(posting.comment));
+		return [
+			[`account of ${label}`, content.trim()],
+			[`amount of ${label}`, ''],
+			[`balance assertion of ${label}`, ''],
+			...getCommentGroupFields(label, posting.comment, comments)
+		];
+	}
+
+	const assertion = posting.assertion === null ? '' : `${posting.assertionOperator} ${getPostingAmountKey(posting.assertion, styles)}`;
+	return [
+		[`account of ${label}`, formatPostingAccount(posting)],
+		[`amount of ${label}`, getPostingAmountKey(posting.amount, styles)],
+		[`balance assertion of ${label}`, assertion],
+		...getCommentGroupFields(label, posting.comment, comments)
+	];
+}
+
+function getTransactionLikeFingerprint(transaction: TransactionLikeNode, styles: CommodityStyles, options: FormatterOptions): EntryFingerprint {
+	let name: string;
+	let identity: string;
+	let fields: Fingerprint;
+	switch (transaction.type) {
+		case 'periodicTransaction': {
+			const period = collapseWhitespace(transaction.header.period);
+			name = `Periodic transaction "~ ${period}"`;
+			identity = `~ ${period}`;
+			fields = [['description', collapseWhitespace(transaction.header.description)]];
+			break;
+		}
+		case 'autoPostingRule': {
+			const query = collapseWhitespace(transaction.header.query);
+			name = `Auto posting rule "= ${query}"`;
+			identity = `= ${query}`;
+			fields = [];
+			break;
+		}
+		case 'transaction':
+		default: {
+			const { header } = transaction;
+			const payee = collapseWhitespace(getPayeeRewrite(options, header.payee) ?? header.payee);
+			const date = formatDateKey(header.date);
+			name = `Transaction "${date} ${payee}"`;
+			identity = date;
+			fields = [
+				['date', date],
+				['secondary date', header.secondaryDate ? formatDateKey(header.secondaryDate) : ''],
+				['status', header.status],
+				['code', header.code ?? ''],
+				['payee', payee],
+				['note', header.note === null ? '' : collapseWhitespace(header.note)]
+			];
+		}
+	}
+
+	// Comment lines belong to the header or posting above them
+	const groups: Array<{ posting: PostingNode | null; comments: CommentNode[] }> = [{ posting: null, comments: [] }];
+	for (const child of transaction.children) {
+		if (child.type === 'comment') {
+			groups[groups.length - 1].comments.push(child);
+		} else {
+			groups.push({ posting: child, comments: [] });
+		}
+	}
+
+	fields.push(['number of postings', String(transaction.postings.length)]);
+	groups.forEach((group, index) => {
+		fields.push(...(group.posting
+			? getPostingFields(`posting ${index}`, group.posting, group.comments, styles)
+			: getCommentGroupFields('header', transaction.header.comment, group.comments)));
+	});
+
+	return { name, identity: `${transaction.type} ${identity}`, line: transaction.span.start.line, fields, key: '' };
+}
+
+/**
+ * Describes a directive by its keyword and arguments, with whitespace collapsed, the
+ * spacing around the `=` of an alias ignored, and the date and price of a `P`
+ * directive read as values
+ */
+function getDirectiveFields(directive: DirectiveNode, styles: CommodityStyles): Fingerprint {
+	let argument = collapseWhitespace(directive.argument);
+	if (directive.keyword.replace(/^!/, '') === 'alias') {
+		argument = argument.replace(/\s*=\s*/, '=');
+	}
+
+	const price = directive.keyword === 'P' ? argument.match(/^(\S+)((?: \d{1,2}:\d{2}(?::\d{2})?)?) ("[^"]+"|\S+) ([^;]*?)\s*(;.*)?$/) : null;
+	const priceDate = price ? extractDateComponents(price[1]) : null;
+	if (price && priceDate && priceDate.raw === price[1]) {
+		const amount = parseAmount(price[4], styles);
+		const { year, month, day } = priceDate.components;
+		argument = [`${year}-${month}-${day}${price[2]}`, price[3], amount ? formatAmountKey(amount) : price[4], price[5] ?? ''].join(' ');
+	}
+
+	return [
+		['directive', `${directive.keyword} ${argument}`],
+		...directive.children.map((child, index): [string, string] => [
+			`line ${index + 1} of the directive`,
+			child.type === 'comment' ? getCommentKey(child.raw) : `${child.keyword} ${collapseWhitespace(child.argument)}`
+		])
+	];
+}
+
+function getEntryFingerprints(node: JournalNode, styles: CommodityStyles, options: FormatterOptions): EntryFingerprint[] {
+	const line = node.span.start.line;
+	switch (node.type) {
+		case 'transaction':
+		case 'periodicTransaction':
+		case 'autoPostingRule':
+			return [getTransactionLikeFingerprint(node, styles, options)];
+		case 'directive':
+			return [{
+				name: `Directive "${collapseWhitespace(node.raw.split('\n')[0])}"`,
+				identity: `directive ${node.keyword}`,
+				line,
+				fields: getDirectiveFields(node, styles),
+				key: ''
+			}];
+		case 'commentBlock':
+			if (node.delimited) {
+				return [{
+					name: 'Comment block',
+					identity: null,
+					line,
+					fields: [['comment block', node.raw.split('\n').map(text => text.trim()).join('\n')]],
+					key: ''
+				}];
+			}
+			// Comment lines may be grouped differently once blank lines change, so each is an entry
+			return node.comments.map(comment => ({
+				name: `Comment "${comment.raw.trim()}"`,
+				identity: null,
+				line: comment.span.start.line,
+				fields: [['comment', getCommentKey(comment.raw)]],
+				key: ''
+			}));
+		default:
+			return [];
+	}
+}
+
+function getJournalFingerprints(journal: Journal, options: FormatterOptions): EntryFingerprint[] {
+	const styles = collectCommodityStyles(journal);
+	return journal.nodes
+		.flatMap(node => getEntryFingerprints(node, styles, options))
+		.map(entry => ({ ...entry, key: JSON.stringify(entry.fields) }));
+}
+
+/**
+ * Explains how two entries with the same identity differ, naming the first field that changed
+ */
+function describeChange(original: EntryFingerprint, result: EntryFingerprint): string {
+	const resultFields = new Map(result.fields);
+	for (const [label, value] of original.fields) {
+		const resultValue = resultFields.get(label);
+		if (resultValue === undefined) {
+			return `${original.name}: ${label} is missing from the result`;
+		}
+		if (resultValue !== value) {
+			return `${original.name}: ${label} changed from "${value}" to "${resultValue}"`;
+		}
+	}
+	const added = result.fields.find(([label]) => !original.fields.some(([originalLabel]) => originalLabel === label));
+	return added
+		? `${original.name}: the result adds ${added[0]} "${added[1]}"`
+		: `${original.name} changed`;
+}
+
+/**
+ * Checks that formatting or sorting a journal kept its meaning, by comparing the
+ * transactions, postings, amounts, comments and directives of both texts regardless of
+ * their order and layout. Amounts are compared by value and commodity, dates by day,
+ * tags as sets and comments by their text, so the changes the formatter options ask for
+ * (date format, amount style, comment markers, tag placement, payee rewrites, blank
+ * lines) are not differences. An amount written a single space after its account is read
+ * as hledger reads it, as part of the account name.
+ * @param original The journal before formatting or sorting
+ * @param result The formatted or sorted journal
+ * @param optionsOrColumn The formatter options used, for the payee rewrites they ask for
+ * @returns Whether the journals are equivalent, and the entries that differ
+ */
+export function verifyJournalEquivalence(
+	original: string,
+	result: string,
+	optionsOrColumn?: number | Partial<FormatterOptions>
+): EquivalenceReport {
+	const options = normalizeFormatterOptions(optionsOrColumn);
+	// Payee rewrites are applied to the original, so the result is compared without them
+	const resultOptions = { ...options, payeeRewrites: {} };
+	const originalEntries = getJournalFingerprints(parseJournal(readSourceText(original).text), options);
+	const resultEntries = getJournalFingerprints(parseJournal(readSourceText(result).text), resultOptions);
+
+	const unmatchedResults = new Map<string, EntryFingerprint[]>();
+	for (const entry of resultEntries) {
+		unmatchedResults.set(entry.key, [...(unmatchedResults.get(entry.key) ?? []), entry]);
+	}
+	const unmatchedOriginals = originalEntries.filter(entry => {
+		const matches = unmatchedResults.get(entry.key);
+		if (!matches || matches.length === 0) {
+			return true;
+		}
+		matches.shift();
+		return false;
+	});
+	const remainingResults = resultEntries.filter(entry => unmatchedResults.get(entry.key)?.includes(entry));
+
+	const differences: JournalDifference[] = [];
+	for (const entry of unmatchedOriginals) {
+		const changedIndex = entry.identity === null ? -1 : remainingResults.findIndex(candidate => candidate.identity === entry.identity);
+		if (changedIndex === -1) {
+			differences.push({ line: entry.line, resultLine: null, message: `${entry.name} is missing from the result` });
+			continue;
+		}
+		const [changed] = remainingResults.splice(changedIndex, 1);
+		differences.push({ line: entry.line, resultLine: changed.line, message: describeChange(entry, changed) });
+	}
+	for (const entry of remainingResults) {
+		differences.push({ line: null, resultLine: entry.line, message: `${entry.name} is not in the original` });
+	}
+
+	return { equivalent: differences.length === 0, differences };
+}
@@ -0,0 +1,90 @@
+// Code point ranges with East Asian Width "W" (wide) or "F" (fullwidth) outside the emoji blocks
+const WIDE_RANGES: ReadonlyArray<readonly [number, number]> = [
+	[0x1100, 0x115F],
+	[0x2E80, 0x303E],
+	[0x3041, 0x33FF],
+	[0x3400, 0x4DBF],
+	[0x4E00, 0x9FFF],
+	[0xA000, 0xA4CF],
+	[0xA960, 0xA97F],
+	[0xAC00, 0xD7A3],
+	[0xF900, 0xFAFF],
+	[0xFE10, 0xFE19],
+	[0xFE30, 0xFE6F],
+	[0xFF00, 0xFF60],
+	[0xFFE0, 0xFFE6],
+	[0x1B000, 0x1B2FF],
+	[0x1F200, 0x1F2FF],
+	[0x20000, 0x2FFFD],
+	[0x30000, 0x3FFFD]
+];
+
+const ASCII_PATTERN = /^[\x20-\x7e]*$/;
+const ZERO_WIDTH_PATTERN = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}\u{1160}-\u{11FF}]$/u;
+const EMOJI_PATTERN = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\u{FE0F}/u;
+
+let graphemeSegmenter: Intl.Segmenter | null = null;
+
+function getCodePointWidth(codePoint: number): number {
+	if (ZERO_WIDTH_PATTERN.test(String.fromCodePoint(codePoint))) {
+		return 0;
+	}
+	return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1;
+}
+
+function getGraphemeWidth(grapheme: string): number {
+	// Emoji take two columns however many code points (skin tones, ZWJ sequences, flags) they are built from
+	if (EMOJI_PATTERN.test(grapheme)) {
+		return 2;
+	}
+
+	let width = 0;
+	for (const char of grapheme) {
+		width += getCodePointWidth(char.codePointAt(0) ?? 0);
+	}
+	return width;
+}
+
+function getTabFreeWidth(text: string): number {
+	if (ASCII_PATTERN.test(text)) {
+		return text.length;
+	}
+
+	graphemeSegmenter ??= new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+	let width = 0;
+	for (const { segment } of graphemeSegmenter.segment(text)) {
+		width += getGraphemeWidth(segment);
+	}
+	return width;
+}
+
+/**
+ * Returns the number of columns a text takes up in a monospace editor or terminal:
+ * East Asian wide and fullwidth characters and emoji count as 2, combining marks and
+ * other zero-width characters as 0, and a tab reaches the next tab stop
+ * @param text The text, starting at the beginning of a line
+ * @param tabWidth Columns between tab stops
+ */
+export function getDisplayWidth(text: string, tabWidth = 4): number {
+	if (!text.includes('\t')) {
+		return getTabFreeWidth(text);
+	}
+
+	let width = 0;
+	const segments = text.split('\t');
+	segments.forEach((segment, index) => {
+		width += getTabFreeWidth(segment);
+		if (index < segments.length - 1) {
+			width += tabWidth - (width % tabWidth);
+		}
+	});
+	return width;
+}
+
+/**
+ * Pads a text with spaces on the right until it is `width` columns wide, like
+ * String.prototype.padEnd() but counting display width
+ */
+export function padEndToWidth(text: string, width: number, tabWidth = 4): string {
+	return `${text}${' '.repeat(Math.max(0, width - getDisplayWidth(text, tabWidth)))}`;
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+
+import {
+	addDecimals,
+	formatDecimal,
+	multiplyDecimals,
+	negateDecimal,
+	parseDecimal,
+	setDecimalScale,
+	trimDecimal,
+	type Decimal
+} from '../src/index';
+
+function decimal(text: string): Decimal {
+	const value = parseDecimal(text);
+	assert.ok(value, `${text} should parse`);
+	return value;
+}
+
+describe('Decimal Tests', () => {
+
+	it('Parses plain numbers keeping their precision', () => {
+		assert.deepStrictEqual(parseDecimal('12.50'), { units: 1250n, scale: 2 });
+		assert.deepStrictEqual(parseDecimal('-0.00000001'), { units: -1n, scale: 8 });
+		assert.deepStrictEqual(parseDecimal('1000'), { units: 1000n, scale: 0 });
+		assert.strictEqual(parseDecimal('1,000'), null);
+		assert.strictEqual(parseDecimal('abc'), null);
+	});
+
+	it('Adds without floating point error', () => {
+		assert.strictEqual(formatDecimal(addDecimals(decimal('0.1'), decimal('0.2'))), '0.3');
+		assert.strictEqual(formatDecimal(addDecimals(decimal('0.12345678'), decimal('-1.5'))), '-1.37654322');
+
+		let total = decimal('0');
+		for (let i = 0; i < 1000; i++) {
+			total = addDecimals(total, decimal('0.01'));
+		}
+		assert.strictEqual(formatDecimal(total), '10.00');
+	});
+
+	it('Multiplies exactly', () => {
+		assert.strictEqual(formatDecimal(multiplyDecimals(decimal('10'), decimal('150.25'))), '1502.50');
+		assert.strictEqual(formatDecimal(multiplyDecimals(decimal('-0.5'), decimal('0.0001'))), '-0.00005');
+	});
+
+	it('Rescales, rounding half away from zero', () => {
+		assert.strictEqual(formatDecimal(setDecimalScale(decimal('1.5'), 3)), '1.500');
+		assert.strictEqual(formatDecimal(setDecimalScale(decimal('2.345'), 2)), '2.35');
+		assert.strictEqual(formatDecimal(setDecimalScale(decimal('-2.345'), 2)), '-2.35');
+		assert.strictEqual(formatDecimal(decimal('1.005'), 0), '1');
+	});
+
+	it('Trims trailing zeros and formats negative fractions', () => {
+		assert.deepStrictEqual(trimDecimal(decimal('13.500')), { units: 135n, scale: 1 });
+		assert.strictEqual(formatDecimal(negateDecimal(decimal('0.05'))), '-0.05');
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+
+import { findFormatterWarnings, formatHledgerJournal, formatHledgerJournalWithReport, parseJournal } from '../src/index';
+
+function getWarnings(text: string): Array<[number, number, string]> {
+	return findFormatterWarnings(parseJournal(text)).map(warning => [warning.line, warning.column, warning.code]);
+}
+
+describe('Formatter Warning Tests', () => {
+
+	it('Returns the formatted text along with the warnings', () => {
+		const input = '2025-03-01 Lunch\n  expenses:food $12\n  assets:cash\n';
+		const report = formatHledgerJournalWithReport(input);
+
+		assert.strictEqual(report.text, formatHledgerJournal(input));
+		assert.deepStrictEqual(report.warnings, [{
+			line: 1,
+			column: 16,
+			code: 'guessed-separator',
+			message: 'Only one space before the amount "$12": it is formatted as an amount, but hledger reads it as part of the account name'
+		}]);
+	});
+
+	it('Has no warnings for a well-formed journal', () => {
+		const input = [
+			'2025-03-01 * Lunch  ; project:house',
+			'    expenses:food          $12.00',
+			'    project: house',
+			'    assets:cash',
+			'',
+			'= expenses:food',
+			'    (budget:food)  *-1',
+			'',
+			'comment',
+			'2025-13-01 not a date',
+			'end comment',
+			''
+		].join('\n');
+
+		assert.deepStrictEqual(getWarnings(input), []);
+	});
+
+	it('Warns about amounts kept in the account name and amounts it cannot read', () => {
+		const input = '2025-03-01 Lunch\n  expenses:food €12\n  expenses:tips  twelve\n  assets:cash\n';
+
+		assert.deepStrictEqual(getWarnings(input), [[1, 16, 'guessed-separator'], [2, 17, 'unrecognized-line']]);
+	});
+
+	it('Warns about unindented lines inside a transaction', () => {
+		const input = '2025-03-01 Lunch\nexpenses:food  $12\n  assets:cash\n';
+
+		assert.deepStrictEqual(getWarnings(input), [[1, 0, 'unrecognized-line']]);
+	});
+
+	it('Warns about comment blocks without end comment', () => {
+		const input = '2025-03-01 Lunch\n  expenses:food  $12\n  assets:cash\n\ncomment\n2025-03-02 Dinner\n';
+
+		assert.deepStrictEqual(getWarnings(input), [[4, 0, 'unterminated-comment-block']]);
+	});
+
+	it('Warns about dates that do not exist', () => {
+		const input = [
+			'2025-02-29 Not a leap year',
+			'    expenses:food  $12',
+			'    assets:cash',
+			'',
+			'2025-03-01=2025-13-01 Bad secondary date',
+			'    expenses:food  $12',
+			'    assets:cash',
+			'',
+			'2025-14-01 Month out of range',
+			'    expenses:food  $12',
+			'    assets:cash',
+			'',
+			'13/45 Year-less date out of range',
+			'    expenses:food  $12',
+			'    assets:cash',
+			'',
+			'2024-02-29 Leap day',
+			'    expenses:food  $12',
+			'    assets:cash'
+		].join('\n');
+
+		assert.deepStrictEqual(getWarnings(input), [[0, 0, 'invalid-date'], [4, 11, 'invalid-date'], [8, 0, 'invalid-date'], [12, 0, 'invalid-date']]);
+	});
+
+	it('Skips postings left as written by a pragma', () => {
+		const input = '; hledger-fmt: ignore-next\n2025-03-01 Lunch\n  expenses:food $12\n  assets:cash\n';
+
+		assert.deepStrictEqual(getWarnings(input), []);
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+
+import { applyLineEdits, computeLineEdits, formatHledgerJournal, mapPosition, sortHledgerJournal } from '../src/index';
+
+describe('Line Edit Tests', () => {
+
+	const journal = [
+		'2024-02-01 Rent',
+		'  expenses:rent  $500',
+		'  assets:cash',
+		'',
+		'2024-01-01 Groceries',
+		'  expenses:food  $5',
+		'  assets:cash',
+		''
+	].join('\n');
+
+	it('Returns no edits for equal texts', () => {
+		assert.deepStrictEqual(computeLineEdits(journal, journal), []);
+	});
+
+	it('Replaces only the lines that changed', () => {
+		const formatted = formatHledgerJournal(journal);
+		const edits = computeLineEdits(journal, formatted);
+
+		assert.deepStrictEqual(edits.map(edit => [edit.startLine, edit.deletedLineCount, edit.lines.length]), [[1, 2, 2], [5, 2, 2]]);
+		assert.strictEqual(journal.slice(edits[0].start, edits[0].end), '  expenses:rent  $500\n  assets:cash');
+		assert.strictEqual(applyLineEdits(journal, edits), formatted);
+	});
+
+	it('Inserts and deletes whole lines, including at the end of the text', () => {
+		const cases: Array<[string, string]> = [
+			['a\nb\nc', 'a\nc'],
+			['a\nb\nc', 'a\nb'],
+			['a\nb', 'x\na\nb'],
+			['a\nb', 'a\nb\nc\nd'],
+			['a\nb\nc', ''],
+			['', 'a'],
+			['a\r\nb\r\n', 'a\r\nx\r\nb\r\n'],
+			['a\nb\nc\nd\ne', 'e\nd\nc\nb\na']
+		];
+
+		for (const [original, modified] of cases) {
+			const edits = computeLineEdits(original, modified);
+			assert.strictEqual(applyLineEdits(original, edits), modified, JSON.stringify([original, modified]));
+		}
+		assert.deepStrictEqual(computeLineEdits('a\nb\nc', 'a\nc'), [
+			{ startLine: 1, deletedLineCount: 1, lines: [], start: 2, end: 4, text: '' }
+		]);
+		assert.deepStrictEqual(computeLineEdits('a\nb', 'a\nb\nc'), [
+			{ startLine: 2, deletedLineCount: 0, lines: ['c'], start: 3, end: 3, text: '\nc' }
+		]);
+	});
+
+	it('Keeps a position on the same character of a reformatted posting', () => {
+		const formatted = formatHledgerJournal(journal);
+		const edits = computeLineEdits(journal, formatted);
+
+		// On the "$" of "$500", after the account name, and in the indentation
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 1, column: 17 }), { line: 1, column: formatted.split('\n')[1].indexOf('$') });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 1, column: 15 }), { line: 1, column: 17 });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 1, column: 1 }), { line: 1, column: 1 });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 4, column: 3 }), { line: 4, column: 3 });
+	});
+
+	it('Follows a line to where sorting moves its transaction', () => {
+		const sorted = sortHledgerJournal(journal);
+		const edits = computeLineEdits(journal, sorted);
+
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 1, column: 4 }), { line: 5, column: 4 });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 2, column: 2 }), { line: 6, column: 2 });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 5, column: 2 }), { line: 1, column: 2 });
+		assert.deepStrictEqual(mapPosition(journal, edits, { line: 6, column: 2 }), { line: 2, column: 2 });
+	});
+
+	it('Shifts lines below inserted and deleted lines', () => {
+		const original = 'a\nb\nc\nd';
+		const edits = computeLineEdits(original, 'x\ny\na\nc\nd');
+
+		assert.deepStrictEqual(mapPosition(original, edits, { line: 3, column: 1 }), { line: 4, column: 1 });
+		assert.deepStrictEqual(mapPosition(original, edits, { line: 1, column: 1 }), { line: 3, column: 1 });
+	});
+});
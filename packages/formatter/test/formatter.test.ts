@@ -3,7 +3,7 @@ import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { formatHledgerJournal, toggleCommentLines, sortHledgerJournal, parseAmount, formatAmountValue, calculateBalancingAmount } from '../src/index';
+import { formatHledgerJournal, verifyJournalEquivalence, formatHledgerJournalRange, toggleCommentLines, sortHledgerJournal, parseAmount, parsePostingAmount, formatAmountValue, inferCommodityStyle, collectCommodityStyles, calculateBalancingAmount, calculateBalancingAmounts, calculateBalancingInsertion, formatDecimal, parseDecimal, parseJournal, getDisplayWidth } from '../src/index';
 
 describe('Hledger Formatter Tests', () => {
 
@@ -151,6 +151,54 @@ describe('Hledger Formatter Tests', () => {
 		assert.strictEqual(lines[4], '2025.03.02 Two');
 	});
 
+	it('Formats secondary dates with the configured style', () => {
+		const testInput = `2025-3-1=2025-3-5 * Paid
+  expenses:food    $10.00
+  assets:cash`;
+
+		const formatted = formatHledgerJournal(testInput, { dateFormat: 'YYYY/MM/DD' });
+		assert.strictEqual(formatted.split('\n')[0], '2025/03/01=2025/03/05 * Paid');
+	});
+
+	it('Keeps short dates short unless expansion is enabled', () => {
+		const testInput = `Y 2024
+
+1/5=1.7 Short dates
+  expenses:food    $10.00
+  assets:cash`;
+
+		const shortLines = formatHledgerJournal(testInput).split('\n');
+		assert.strictEqual(shortLines[2], '01-05=01-07 Short dates');
+
+		const expandedLines = formatHledgerJournal(testInput, { expandShortDates: true, dateFormat: 'YYYY.MM.DD' }).split('\n');
+		assert.strictEqual(expandedLines[2], '2024.01.05=2024.01.07 Short dates');
+	});
+
+	it('Normalizes balance assertions and assignments after the amount', () => {
+		const testInput = `2025-03-01 Reconcile
+  assets:checking    $10.00   ==   $500.00
+  assets:cash  = $50.00
+  equity`;
+
+		const lines = formatHledgerJournal(testInput).split('\n');
+		assert.strictEqual(lines[1], '    assets:checking  $10.00 == $500.00');
+		assert.strictEqual(lines[2], '    assets:cash    = $50.00');
+	});
+
+	it('Aligns balance assertions in a second column when configured', () => {
+		const testInput = `2025-03-01 Reconcile
+  assets:checking    $10.00 = $500.00
+  assets:savings    -$1,000.00 =* $-2,000.00
+  assets:cash  = $50.00
+  equity`;
+
+		const lines = formatHledgerJournal(testInput, { alignBalanceAssertions: true }).split('\n');
+		assert.strictEqual(lines[1], '    assets:checking  $10.00    = $500.00');
+		assert.strictEqual(lines[2], '    assets:savings  $-1,000.00 =* $-2,000.00');
+		assert.strictEqual(lines[3], '    assets:cash                = $50.00');
+		assert.strictEqual(lines[4], '    equity');
+	});
+
 	it('Correct alignment of negative amounts', () => {
 		const inputJournal = readTestFile('negative_amounts_in.journal');
 		const expectedOutput = readTestFile('negative_amounts_out.journal');
@@ -193,6 +241,497 @@ describe('Hledger Formatter Tests', () => {
 			'First line should have content');
 	});
 
+	it('Format directives', () => {
+		const inputJournal = readTestFile('directives_in.journal');
+		const expectedOutput = readTestFile('directives_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal);
+
+		const normalizedFormatted = normalizeText(formattedJournal);
+		const normalizedExpected = normalizeText(expectedOutput);
+
+		assert.strictEqual(normalizedFormatted, normalizedExpected,
+			'Directives should have normalized spacing, indented subdirectives and aligned price directives');
+	});
+
+	it('Indents directive subdirectives with the configured width', () => {
+		const testInput = `account assets:cash
+ ; petty cash
+        note kept in the drawer`;
+
+		const formatted = formatHledgerJournal(testInput, { indentationWidth: 2 });
+		const lines = formatted.split('\n');
+		assert.strictEqual(lines[1], '  ; petty cash');
+		assert.strictEqual(lines[2], '  note kept in the drawer');
+	});
+
+	it('Formats price directive dates with the configured style', () => {
+		const testInput = `P 2025-01-01 EUR $1.10
+P 2025-01-02 EUR $1.12`;
+
+		const formatted = formatHledgerJournal(testInput, { dateFormat: 'YYYY/MM/DD' });
+		assert.strictEqual(formatted, `P 2025/01/01 EUR $1.10
+P 2025/01/02 EUR $1.12`);
+	});
+
+	it('Leaves unknown directives untouched', () => {
+		const testInput = `python
+    import os`;
+
+		assert.strictEqual(formatHledgerJournal(testInput), testInput);
+	});
+
+	it('Format periodic and auto posting transactions', () => {
+		const inputJournal = readTestFile('periodic_in.journal');
+		const expectedOutput = readTestFile('periodic_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal);
+
+		assert.strictEqual(normalizeText(formattedJournal), normalizeText(expectedOutput),
+			'Formatted journal should match expected output');
+	});
+
+	it('Aligns amounts by display width for wide and combining characters', () => {
+		const inputJournal = readTestFile('unicode_widths_in.journal');
+		const expectedOutput = readTestFile('unicode_widths_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal);
+
+		assert.strictEqual(normalizeText(formattedJournal), normalizeText(expectedOutput),
+			'Formatted journal should match expected output');
+	});
+
+	it('Leaves pragma regions and ignored entries as written', () => {
+		const inputJournal = readTestFile('pragmas_in.journal');
+		const expectedOutput = readTestFile('pragmas_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal);
+
+		assert.strictEqual(normalizeText(formattedJournal), normalizeText(expectedOutput),
+			'Formatted journal should match expected output');
+		assert.strictEqual(formatHledgerJournal(formattedJournal), formattedJournal, 'Formatting is idempotent');
+	});
+
+	it('Keeps pragma regions untouched by whitespace and blank-line options', () => {
+		const testInput = `; hledger-fmt: off
+2025-03-01 Import   
+    expenses:bank        $1.00   
+
+
+
+    assets:bank
+# hledger-fmt: on
+P 2025-03-01 EUR   $1.10
+; hledger-fmt: ignore-next
+P 2025-03-02 EUR   $1.12
+P 2025-03-03 EUR   $1.14   `;
+
+		assert.strictEqual(formatHledgerJournal(testInput, { trimTrailingWhitespace: true, maxBlankLines: 1, normalizeComments: true }), `; hledger-fmt: off
+2025-03-01 Import   
+    expenses:bank        $1.00   
+
+
+
+    assets:bank
+# hledger-fmt: on
+P 2025-03-01 EUR $1.10
+; hledger-fmt: ignore-next
+P 2025-03-02 EUR   $1.12
+P 2025-03-03 EUR $1.14`);
+	});
+
+	it('Pads to fixed columns and right edges by display width', () => {
+		const testInput = `2025-03-01 Lunch
+  expenses:食費    ¥1200
+  expenses:cafe\u0301    $3.50
+  assets:cash`;
+
+		const fixed = formatHledgerJournal(testInput, { amountAlignment: 'fixedColumn', amountColumnPosition: 24 }).split('\n');
+		assert.strictEqual(fixed[1], '    expenses:食費      ¥1200');
+		assert.strictEqual(fixed[2], '    expenses:cafe\u0301      $3.50');
+
+		const right = formatHledgerJournal(testInput, { amountAlignment: 'right' }).split('\n');
+		assert.strictEqual(getDisplayWidth(right[1]), getDisplayWidth(right[2]));
+	});
+
+	it('Keeps the spacing before trailing comments by default', () => {
+		const testInput = `2025-03-01 * Lunch ; client:acme
+  expenses:food  $12      ; lunch
+  assets:cash;paid`;
+
+		const lines = formatHledgerJournal(testInput).split('\n');
+		assert.strictEqual(lines[0], '2025-03-01 * Lunch ; client:acme');
+		assert.strictEqual(lines[1], '    expenses:food  $12      ; lunch');
+		assert.strictEqual(lines[2], '    assets:cash;paid');
+	});
+
+	it('Aligns trailing comments two spaces after the widest posting', () => {
+		const testInput = `2025-03-01 * Lunch ; client:acme
+  expenses:food  $12 ; lunch
+  expenses:tips    $2.50   ;tip
+  assets:bank    $0 = $100 ; checked
+  assets:cash`;
+
+		const formatted = formatHledgerJournal(testInput, { commentAlignment: 'widest' });
+		assert.strictEqual(normalizeText(formatted), normalizeText(`2025-03-01 * Lunch            ; client:acme
+    expenses:food  $12        ; lunch
+    expenses:tips  $2.50      ;tip
+    assets:bank    $0 = $100  ; checked
+    assets:cash`));
+	});
+
+	it('Does not treat # after a posting amount as a comment', () => {
+		const testInput = `2025-03-01 Lunch
+  expenses:food  -$5  #1
+  assets:cash  ; paid`;
+
+		const lines = formatHledgerJournal(testInput, { commentAlignment: 'fixedColumn', commentColumnPosition: 30 }).split('\n');
+		assert.strictEqual(lines[1], '    expenses:food  $-5 #1', 'Only the amount before the # is laid out');
+		assert.strictEqual(lines[2].indexOf(';'), 30);
+	});
+
+	it('Starts trailing comments at a fixed column', () => {
+		const testInput = `2025-03-01 A description longer than the comment column ; header
+  expenses:food  $12 ; lunch
+  assets:cash`;
+
+		const lines = formatHledgerJournal(testInput, { commentAlignment: 'fixedColumn', commentColumnPosition: 30 }).split('\n');
+		assert.strictEqual(lines[0], '2025-03-01 A description longer than the comment column  ; header', 'Comments past the column keep two spaces');
+		assert.strictEqual(lines[1].indexOf(';'), 30);
+	});
+
+	it('Rewrites comment markers to the configured character when normalizing comments', () => {
+		const testInput = `;;; Expenses
+#top-level note
+    *   indented note
+
+comment
+# kept as written
+end comment
+
+2025-03-01 Lunch ;receipt
+    #   posting note
+    expenses:food    $12  ;lunch
+    assets:cash
+
+account assets:cash
+    *subcomment`;
+
+		assert.strictEqual(formatHledgerJournal(testInput, { commentCharacter: '#' }), formatHledgerJournal(testInput), 'Markers are kept unless normalization is on');
+
+		const hashes = formatHledgerJournal(testInput, { normalizeComments: true, commentCharacter: '#' }).split('\n');
+		assert.deepStrictEqual(hashes.slice(0, 7), ['### Expenses', '# top-level note', '    # indented note', '', 'comment', '# kept as written', 'end comment']);
+		assert.strictEqual(hashes[8], '2025-03-01 Lunch ; receipt', 'Only ; is valid inside transactions');
+		assert.strictEqual(hashes[9], '    ; posting note');
+		assert.ok(hashes[10].endsWith('$12  ; lunch'));
+		assert.strictEqual(hashes[14], '    ; subcomment');
+
+		const stars = formatHledgerJournal(testInput, { normalizeComments: true, commentCharacter: '*' }).split('\n');
+		assert.deepStrictEqual(stars.slice(0, 3), ['*** Expenses', '* top-level note', '    ; indented note'], '* is only valid at column 0');
+	});
+
+	it('Normalizes tags in comments', () => {
+		const testInput = `2025-03-01 Lunch  ; client:acme,project:house ,client:acme
+    ; receipt:r1.pdf,  reviewed:
+    expenses:food    $12  ; lunch, category:food
+    ; see statement, page:2
+    assets:cash  ; paid by: Alex, and more`;
+
+		assert.strictEqual(formatHledgerJournal(testInput, { sortTags: true, tagPlacement: 'inline' }), formatHledgerJournal(testInput), 'Tags are kept unless normalization is on');
+
+		const preserved = formatHledgerJournal(testInput, { normalizeTags: true, sortTags: true }).split('\n');
+		assert.strictEqual(preserved[0], '2025-03-01 Lunch  ; client:acme, project:house');
+		assert.strictEqual(preserved[1], '    ; receipt:r1.pdf, reviewed:');
+		assert.ok(preserved[2].endsWith('$12  ; lunch, category:food'));
+		assert.strictEqual(preserved[3], '    ; see statement, page:2');
+		assert.ok(preserved[4].endsWith('; paid by: Alex, and more'), 'Free text after a tag is left as written');
+
+		const inline = formatHledgerJournal(testInput, { normalizeTags: true, tagPlacement: 'inline' }).split('\n');
+		assert.strictEqual(inline[0], '2025-03-01 Lunch  ; client:acme, project:house, receipt:r1.pdf, reviewed:');
+		assert.strictEqual(inline[1].trim(), 'expenses:food  $12  ; lunch, category:food');
+		assert.strictEqual(inline[2], '    ; see statement, page:2', 'Comment lines with text keep their tags');
+
+		const separate = formatHledgerJournal(testInput, { normalizeTags: true, tagPlacement: 'separateLine' }).split('\n');
+		assert.strictEqual(separate[0], '2025-03-01 Lunch');
+		assert.strictEqual(separate[1], '    ; client:acme, project:house, receipt:r1.pdf, reviewed:');
+		assert.strictEqual(separate[2].trim(), 'expenses:food  $12  ; lunch');
+		assert.strictEqual(separate[3], '    ; category:food');
+		assert.strictEqual(separate[4], '    ; see statement, page:2');
+	});
+
+	it('Indents rewritten comment lines like the postings around them', () => {
+		const testInput = `2025-03-01 Lunch
+  expenses:food    $12
+        ; receipt:r1.pdf,project:house
+  assets:cash
+ ;paid`;
+
+		const tagged = formatHledgerJournal(testInput, { normalizeTags: true }).split('\n');
+		assert.strictEqual(tagged[2], '    ; receipt:r1.pdf, project:house');
+		assert.strictEqual(tagged[4], ' ;paid', 'Comments without tags are left as written');
+
+		const normalized = formatHledgerJournal(testInput, { normalizeComments: true }).split('\n');
+		assert.strictEqual(normalized[2], '    ; receipt:r1.pdf,project:house');
+		assert.strictEqual(normalized[4], '    ; paid');
+	});
+
+	it('Indents with tabs and replaces tab separators with aligned spaces', () => {
+		const testInput = `2025-03-01 Lunch  ; note
+\texpenses:food\t$12.50  ; meal
+\tassets:cash\t\t$-12.50`;
+
+		assert.strictEqual(formatHledgerJournal(testInput), `2025-03-01 Lunch  ; note
+    expenses:food  $12.50  ; meal
+    assets:cash   $-12.50
+`);
+
+		const tabbed = formatHledgerJournal(testInput, { indentStyle: 'tabs', tabWidth: 8, commentAlignment: 'widest' });
+		assert.strictEqual(tabbed, `2025-03-01 Lunch               ; note
+\texpenses:food  $12.50  ; meal
+\tassets:cash   $-12.50
+`, 'Comments line up counting the tab as 8 columns');
+
+		assert.strictEqual(formatHledgerJournal('account assets:cash\n  ; cash in hand', { indentStyle: 'tabs' }), 'account assets:cash\n\t; cash in hand');
+	});
+
+	it('Formats only the entries intersecting a line range', () => {
+		const testInput = `P 2025-03-01 EUR  $1.10
+P 2025-03-01 GBP   $1.30
+
+2025-03-01 Lunch
+  expenses:food    $12.50
+  assets:cash
+
+
+2025-03-02 Dinner
+  expenses:food    $20
+  assets:cash`;
+
+		assert.deepStrictEqual(formatHledgerJournalRange(testInput, 9, 10), {
+			startLine: 8,
+			endLine: 10,
+			text: '2025-03-02 Dinner\n    expenses:food  $20\n    assets:cash'
+		}, 'Only the touched transaction is formatted and the blank lines before it are kept');
+
+		assert.deepStrictEqual(formatHledgerJournalRange(testInput, 0, 0), {
+			startLine: 0,
+			endLine: 0,
+			text: 'P 2025-03-01 EUR $1.10'
+		}, 'Price directives still line up with the whole block');
+
+		assert.strictEqual(formatHledgerJournalRange(testInput, 2, 2), null, 'A range of blank lines has nothing to format');
+		assert.strictEqual(formatHledgerJournalRange(formatHledgerJournal(testInput), 3, 5), null, 'Formatted entries need no edit');
+
+		const crlf = formatHledgerJournalRange(`\uFEFF${testInput.replace(/\n/g, '\r\n')}`, 3, 3);
+		assert.strictEqual(crlf?.text, '2025-03-01 Lunch\r\n    expenses:food  $12.50\r\n    assets:cash', 'Edits use the line endings of the journal');
+	});
+
+	it('Applies blank-line, trailing-whitespace and final-newline options', () => {
+		const testInput = `
+
+; accounts   
+account assets:cash
+2025-03-01 Lunch
+    expenses:food  $12
+    assets:cash
+2025-03-02 Dinner   
+    expenses:food  $20
+    assets:cash
+
+
+
+P 2025-03-01 EUR $1.10
+; end   `;
+
+		const defaults = formatHledgerJournal(testInput);
+		assert.ok(defaults.startsWith('; accounts   \naccount assets:cash\n2025-03-01'), 'Leading blank lines are dropped and the rest is kept by default');
+		assert.ok(defaults.endsWith('; end   '), 'No final newline is added by default');
+
+		const formatted = formatHledgerJournal(testInput, {
+			blankLinesBetweenTransactions: 2,
+			blankLinesAroundDirectives: 1,
+			maxBlankLines: 2,
+			trimTrailingWhitespace: true,
+			ensureFinalNewline: true
+		});
+		assert.strictEqual(formatted, `; accounts
+account assets:cash
+
+2025-03-01 Lunch
+    expenses:food  $12
+    assets:cash
+
+
+2025-03-02 Dinner
+    expenses:food  $20
+    assets:cash
+
+P 2025-03-01 EUR $1.10
+; end
+`);
+
+		assert.ok(!formatHledgerJournal(testInput, { maxBlankLines: 0 }).includes('\n\n'), 'maxBlankLines caps the blank lines after transactions too');
+	});
+
+	it('Preserves CRLF line endings and a byte order mark', () => {
+		const testInput = '\uFEFF2025-03-01 Lunch\r\n    expenses:food  $12\r\n    assets:cash\r\n';
+
+		const formatted = formatHledgerJournal(testInput);
+		assert.ok(formatted.startsWith('\uFEFF2025-03-01 Lunch\r\n'), 'The byte order mark and CRLF line endings are kept');
+		assert.ok(!formatted.includes('\r\r'), 'Carriage returns are not doubled');
+		assert.strictEqual(formatted.split('\r\n').length, 4, 'Every line ends with CRLF');
+		assert.ok(formatted.split('\r\n')[1].includes('expenses:food'), 'The first transaction after the byte order mark is formatted');
+		assert.strictEqual(formatHledgerJournal(formatted), formatted, 'Formatting is idempotent');
+
+		assert.strictEqual(formatHledgerJournal(testInput, { lineEnding: 'lf' }), formatted.replace(/\r\n/g, '\n'));
+		assert.strictEqual(formatHledgerJournal(formatted.replace(/\r\n/g, '\n'), { lineEnding: 'crlf' }), formatted);
+	});
+
+	it('Sorts CRLF journals without changing their line endings', () => {
+		const testInput = '\uFEFF2025-03-02 Dinner\r\n    expenses:food  $20\r\n    assets:cash\r\n\r\n2025-03-01 Lunch\r\n    expenses:food  $12\r\n    assets:cash\r\n';
+
+		const sorted = sortHledgerJournal(testInput);
+		assert.strictEqual(sorted, '\uFEFF2025-03-01 Lunch\r\n    expenses:food  $12\r\n    assets:cash\r\n\r\n2025-03-02 Dinner\r\n    expenses:food  $20\r\n    assets:cash\r\n');
+	});
+
+	it('Normalizes descriptions, payees and status markers', () => {
+		const testInput = `2025-03-01 !AMZN  MKTP US*1A2B   |  order   42  ; online
+    expenses:home    $30
+    assets:cash
+
+2025-03-02 * (12)  Corner   Shop|groceries
+    expenses:food    $12
+    assets:cash`;
+
+		const lines = formatHledgerJournal(testInput).split('\n');
+		assert.strictEqual(lines[0], '2025-03-01 ! AMZN  MKTP US*1A2B   |  order   42  ; online', 'Descriptions are kept as written by default');
+		assert.strictEqual(lines[4], '2025-03-02 * (12) Corner   Shop|groceries');
+
+		const payeeRewrites = { 'AMZN MKTP US*1A2B': 'Amazon' };
+		const rewritten = formatHledgerJournal(testInput, { payeeRewrites }).split('\n');
+		assert.strictEqual(rewritten[0], '2025-03-01 ! Amazon   |  order   42  ; online', 'Only the payee is replaced');
+
+		const normalized = formatHledgerJournal(testInput, { normalizeDescriptions: true, payeeRewrites, statusSpacing: 'unspaced' }).split('\n');
+		assert.strictEqual(normalized[0], '2025-03-01 !Amazon | order 42  ; online');
+		assert.strictEqual(normalized[4], '2025-03-02 *(12) Corner Shop | groceries');
+
+		const preserved = formatHledgerJournal(testInput, { statusSpacing: 'preserve' }).split('\n');
+		assert.ok(preserved[0].startsWith('2025-03-01 !AMZN'));
+		assert.ok(preserved[4].startsWith('2025-03-02 * (12)'));
+	});
+
+	it('Normalizes amounts to their commodity styles', () => {
+		const inputJournal = readTestFile('commodity_styles_in.journal');
+		const expectedOutput = readTestFile('commodity_styles_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal, { normalizeAmounts: true });
+
+		assert.strictEqual(normalizeText(formattedJournal), normalizeText(expectedOutput),
+			'Formatted journal should match expected output');
+		assert.ok(formatHledgerJournal(inputJournal).includes('EUR 1234,5'), 'Amounts should be kept as written by default');
+	});
+
+	it('Reads an amount like `1,500` with the decimal mark of the commodity\'s other amounts', () => {
+		const testInput = `2025-03-01 Rent
+  expenses:rent  $1,500
+  assets:cash
+
+2025-04-01 Rent
+  expenses:rent  $-1,500.00
+  assets:cash
+`;
+
+		// `$1,500` could mean 1.5 or 1500; `$-1,500.00` shows `,` groups digits
+		const formattedJournal = formatHledgerJournal(testInput, { normalizeAmounts: true });
+		const lines = formattedJournal.split('\n');
+		assert.strictEqual(lines[1], '    expenses:rent  $1,500.00');
+		assert.strictEqual(lines[5], '    expenses:rent  $-1,500.00');
+		assert.strictEqual(verifyJournalEquivalence(testInput, formattedJournal, { normalizeAmounts: true }).equivalent, true);
+	});
+
+	it('Normalizes grouped, ungrouped and fractional amounts of one commodity', () => {
+		const inputJournal = readTestFile('mixed_amount_styles_in.journal');
+		const expectedOutput = readTestFile('mixed_amount_styles_out.journal');
+
+		const formattedJournal = formatHledgerJournal(inputJournal, { normalizeAmounts: true });
+
+		assert.strictEqual(normalizeText(formattedJournal), normalizeText(expectedOutput),
+			'Formatted journal should match expected output');
+	});
+
+	it('Aligns amounts on their decimal marks', () => {
+		const testInput = `commodity 1.000,00 EUR
+
+2025-03-01 Mixed amounts
+  expenses:food    $5.00
+  expenses:rent    $1,250.00
+  expenses:stock    10 AAPL @ $1.50
+  expenses:travel    EUR 1.234,5
+  assets:cash    $-12 = $500.00
+  assets:bank`;
+
+		const lines = formatHledgerJournal(testInput, { amountAlignment: 'decimal' }).split('\n');
+		assert.strictEqual(lines[3], '    expenses:food           $5.00');
+		assert.strictEqual(lines[4], '    expenses:rent       $1,250.00');
+		assert.strictEqual(lines[5], '    expenses:stock          10 AAPL @ $1.50');
+		assert.strictEqual(lines[6], '    expenses:travel  EUR 1.234,5');
+		assert.strictEqual(lines[7], '    assets:cash           $-12 = $500.00');
+		assert.strictEqual(lines[8], '    assets:bank');
+	});
+
+	it('Aligns the ends of amounts with right alignment', () => {
+		const testInput = `2025-03-01 Mixed amounts
+  expenses:food    $5.00
+  expenses:rent    $1,250.00
+  assets:checking    -10 AAPL
+  assets:bank`;
+
+		const lines = formatHledgerJournal(testInput, { amountAlignment: 'right' }).split('\n');
+		assert.strictEqual(lines[1], '    expenses:food       $5.00');
+		assert.strictEqual(lines[2], '    expenses:rent   $1,250.00');
+		assert.strictEqual(lines[3], '    assets:checking  -10 AAPL');
+	});
+
+	it('Places the negative sign for any commodity symbol', () => {
+		const testInput = `2025-03-01 Refunds
+  expenses:fees    CHF-10
+  expenses:travel    -R$ 5
+  expenses:gifts    "Gift Card"-20
+  expenses:stock    - 3 AAPL @ USD 2
+  assets:cash`;
+
+		const symbolFirst = formatHledgerJournal(testInput, { negativeCommodityStyle: 'symbolBeforeSign' }).split('\n');
+		assert.deepStrictEqual(symbolFirst.slice(1, 4).map(line => line.trim().split(/\s{2,}/)[1]), ['CHF-10', 'R$ -5', '"Gift Card"-20']);
+
+		const signFirst = formatHledgerJournal(testInput, { negativeCommodityStyle: 'signBeforeSymbol' }).split('\n');
+		assert.deepStrictEqual(signFirst.slice(1, 4).map(line => line.trim().split(/\s{2,}/)[1]), ['-CHF10', '-R$ 5', '-"Gift Card"20']);
+		assert.ok(signFirst[4].endsWith('- 3 AAPL @ USD 2'), 'Amounts that do not parse are kept as written');
+	});
+
+	it('Normalizes commodity spacing and side, globally and per commodity', () => {
+		const testInput = `2025-03-01 Mixed layouts
+  expenses:a    USD 30 @ EUR2  ; rate
+  expenses:b    $ -1,000.00 = $-5
+  assets:cash    -20 CHF`;
+
+		const spaced = formatHledgerJournal(testInput, { commoditySpacing: 'spaced' }).split('\n');
+		assert.ok(spaced[1].endsWith('USD 30 @ EUR 2  ; rate'));
+		assert.ok(spaced[2].endsWith('$ -1,000.00 = $ -5'));
+
+		const layouts = formatHledgerJournal(testInput, {
+			commoditySide: 'right',
+			commoditySpacing: 'spaced',
+			commodityLayouts: { '$': { commoditySide: 'left', commoditySpacing: 'unspaced', negativeCommodityStyle: 'signBeforeSymbol' } }
+		}).split('\n');
+		assert.ok(layouts[1].endsWith('30 USD @ 2 EUR  ; rate'));
+		assert.ok(layouts[2].endsWith('-$1,000.00 = -$5'));
+		assert.ok(layouts[3].endsWith('-20 CHF'));
+
+		const preserved = formatHledgerJournal(testInput, {}).split('\n');
+		assert.ok(preserved[1].endsWith('USD 30 @ EUR2  ; rate'), 'Layouts are kept as written by default');
+		assert.ok(preserved[3].endsWith(' -20 CHF'));
+	});
+
 	it('Toggle comment - simple case', () => {
 		const inputJournal = readTestFile('comment_simple_in.journal');
 		const expectedOutput = readTestFile('comment_simple_out.journal');
@@ -301,6 +840,83 @@ describe('Hledger Formatter Tests', () => {
 			'Sorted journal should match expected output');
 	});
 
+	it('Keeps periodic and auto posting entries in place while sorting', () => {
+		const testInput = `2025-03-10 Later
+  assets:cash    $1.00
+  income
+
+~ monthly
+  expenses:food    $400.00
+  assets:checking
+
+2025-03-01 Earlier
+  assets:cash    $2.00
+  income
+`;
+
+		const sorted = sortHledgerJournal(testInput);
+		const headers = sorted.split('\n').filter(line => /^\S/.test(line));
+		assert.deepStrictEqual(headers, ['2025-03-01 Earlier', '~ monthly', '2025-03-10 Later']);
+		assert.ok(sorted.includes('~ monthly\n  expenses:food    $400.00\n  assets:checking\n'),
+			'Periodic postings should stay with their header');
+	});
+
+	it('Moves periodic and auto posting entries to the top when configured', () => {
+		const testInput = `2025-03-10 Later
+  assets:cash    $1.00
+  income
+
+= expenses:food
+  (budget:food)    *-1
+
+~ monthly
+  expenses:food    $400.00
+  assets:checking
+
+2025-03-01 Earlier
+  assets:cash    $2.00
+  income
+`;
+
+		const sorted = sortHledgerJournal(testInput, { undatedEntryPlacement: 'top' });
+		const headers = sorted.split('\n').filter(line => /^\S/.test(line));
+		assert.deepStrictEqual(headers, ['= expenses:food', '~ monthly', '2025-03-01 Earlier', '2025-03-10 Later']);
+	});
+
+	it('Sorts short dates by the year of the preceding year directive', () => {
+		const testInput = `Y 2024
+
+3/5 Short March
+  assets:cash    $1.00
+  income
+
+2023-12-31 Full date
+  assets:cash    $2.00
+  income
+
+1/5 Short January
+  assets:cash    $3.00
+  income
+
+Y 2022
+
+6/1 Older year
+  assets:cash    $4.00
+  income
+
+1/1 Older year start
+  assets:cash    $5.00
+  income
+`;
+
+		const sorted = sortHledgerJournal(testInput);
+		const headers = sorted.split('\n').filter(line => /^\S/.test(line));
+		assert.deepStrictEqual(headers, [
+			'Y 2024', '2023-12-31 Full date', '1/5 Short January', '3/5 Short March',
+			'Y 2022', '1/1 Older year start', '6/1 Older year'
+		], 'Entries should sort within each year directive section');
+	});
+
 	it('Sorts mixed date formats without rewriting them', () => {
 		const mixedInput = `2025/03/05 Transaction slash
   Assets:Cash $5.00
@@ -562,6 +1178,39 @@ describe('Hledger Formatter Tests', () => {
 		assert.ok(lines[7].includes('2025-03-05'), 'Second transaction should be March 5');
 	});
 
+	it('Sort keeps pragma regions and ignored entries in place', () => {
+		const testInput = `2025-03-05 Dinner
+  expenses:food    $20
+  assets:cash
+
+; hledger-fmt: off
+2025-03-01 Import
+  expenses:bank    $1
+  assets:bank
+; hledger-fmt: on
+
+2025-03-04 Lunch
+  expenses:food    $12
+  assets:cash
+
+2025-03-03 Snack
+  expenses:food    $3
+  assets:cash
+
+; hledger-fmt: ignore-next
+2025-03-02 Legacy
+  expenses:food    $5
+  assets:cash
+
+2025-03-01 Breakfast
+  expenses:food    $4
+  assets:cash`;
+
+		const dates = sortHledgerJournal(testInput).split('\n').filter(line => /^\d/.test(line)).map(line => line.slice(0, 10));
+		assert.deepStrictEqual(dates, ['2025-03-05', '2025-03-01', '2025-03-03', '2025-03-04', '2025-03-02', '2025-03-01'],
+			'Entries are sorted between pinned entries but never moved across them');
+	});
+
 	it('New file command generates correct filename format', () => {
 		const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
 
@@ -747,35 +1396,35 @@ describe('Hledger Formatter Tests', () => {
 	it('parseAmount - positive dollar amount', () => {
 		const result = parseAmount('$100.50');
 		assert.ok(result, 'Should parse positive dollar amount');
-		assert.strictEqual(result?.value, 100.50);
+		assert.strictEqual(result && formatDecimal(result.value), '100.50');
 		assert.strictEqual(result?.currency, '$');
 	});
 
 	it('parseAmount - negative dollar amount with sign before symbol', () => {
 		const result = parseAmount('-$50.25');
 		assert.ok(result, 'Should parse negative amount with sign before symbol');
-		assert.strictEqual(result?.value, -50.25);
+		assert.strictEqual(result && formatDecimal(result.value), '-50.25');
 		assert.strictEqual(result?.currency, '$');
 	});
 
 	it('parseAmount - negative dollar amount with sign after symbol', () => {
 		const result = parseAmount('$-75.00');
 		assert.ok(result, 'Should parse negative amount with sign after symbol');
-		assert.strictEqual(result?.value, -75.00);
+		assert.strictEqual(result && formatDecimal(result.value), '-75.00');
 		assert.strictEqual(result?.currency, '$');
 	});
 
 	it('parseAmount - amount with commas', () => {
 		const result = parseAmount('$1,234.56');
 		assert.ok(result, 'Should parse amount with commas');
-		assert.strictEqual(result?.value, 1234.56);
+		assert.strictEqual(result && formatDecimal(result.value), '1234.56');
 		assert.strictEqual(result?.currency, '$');
 	});
 
 	it('parseAmount - Euro symbol', () => {
 		const result = parseAmount('€99.99');
 		assert.ok(result, 'Should parse Euro amount');
-		assert.strictEqual(result?.value, 99.99);
+		assert.strictEqual(result && formatDecimal(result.value), '99.99');
 		assert.strictEqual(result?.currency, '€');
 	});
 
@@ -787,86 +1436,171 @@ describe('Hledger Formatter Tests', () => {
 	it('parseAmount - simple commodity name', () => {
 		const result = parseAmount('USD 0.5');
 		assert.ok(result, 'Should parse simple commodity name');
-		assert.strictEqual(result?.value, 0.5);
+		assert.strictEqual(result && formatDecimal(result.value), '0.5');
 		assert.strictEqual(result?.currency, 'USD');
 	});
 
 	it('parseAmount - negative before simple commodity name', () => {
 		const result = parseAmount('-USD 50.25');
 		assert.ok(result, 'Should parse negative with arbitrary commodity name');
-		assert.strictEqual(result?.value, -50.25);
+		assert.strictEqual(result && formatDecimal(result.value), '-50.25');
 		assert.strictEqual(result?.currency, 'USD');
 	});
 
 	it('parseAmount - quoted commodity name', () => {
 		const result = parseAmount('"US Dollar" 100.00');
 		assert.ok(result, 'Should parse quoted commodity name');
-		assert.strictEqual(result?.value, 100.00);
+		assert.strictEqual(result && formatDecimal(result.value), '100.00');
 		assert.strictEqual(result?.currency, '"US Dollar"');
 	});
 
 	it('parseAmount - negative sign before quoted commodity name', () => {
 		const result = parseAmount('-"US Dollar" 100.00');
 		assert.ok(result, 'Should parse negative sign before quoted commodity name');
-		assert.strictEqual(result?.value, -100.00);
+		assert.strictEqual(result && formatDecimal(result.value), '-100.00');
 		assert.strictEqual(result?.currency, '"US Dollar"');
 	});
 
 	it('parseAmount - number before simple commodity name', () => {
 		const result = parseAmount('100.50 USD');
 		assert.ok(result, 'Should parse number before commodity name');
-		assert.strictEqual(result?.value, 100.50);
+		assert.strictEqual(result && formatDecimal(result.value), '100.50');
 		assert.strictEqual(result?.currency, 'USD');
 	});
 
 	it('parseAmount - negative number before simple commodity name', () => {
 		const result = parseAmount('-100.50 USD');
 		assert.ok(result, 'Should parse negative number before commodity name');
-		assert.strictEqual(result?.value, -100.50);
+		assert.strictEqual(result && formatDecimal(result.value), '-100.50');
 		assert.strictEqual(result?.currency, 'USD');
 	});
 
 	it('parseAmount - number before quoted commodity name', () => {
 		const result = parseAmount('100.00 "US Dollar"');
 		assert.ok(result, 'Should parse number before quoted commodity name');
-		assert.strictEqual(result?.value, 100.00);
+		assert.strictEqual(result && formatDecimal(result.value), '100.00');
 		assert.strictEqual(result?.currency, '"US Dollar"');
 	});
 
 	it('parseAmount - negative number before quoted commodity name', () => {
 		const result = parseAmount('-100.00 "US Dollar"');
 		assert.ok(result, 'Should parse negative number before quoted commodity name');
-		assert.strictEqual(result?.value, -100.00);
+		assert.strictEqual(result && formatDecimal(result.value), '-100.00');
 		assert.strictEqual(result?.currency, '"US Dollar"');
 	});
 
+	it('parseAmount - decimal comma with digit groups', () => {
+		assert.strictEqual(formatDecimal(parseAmount('€1.234,56')!.value), '1234.56');
+		assert.strictEqual(formatDecimal(parseAmount('1.234.567 EUR')!.value), '1234567');
+		assert.strictEqual(formatDecimal(parseAmount('1,500 EUR')!.value), '1.500', 'A single mark is assumed to be the decimal mark');
+		assert.strictEqual(parseAmount('$1,234.5.6'), null);
+	});
+
+	it('parseAmount - uses the journal decimal mark and declared commodity styles', () => {
+		const styles = collectCommodityStyles(parseJournal('decimal-mark ,\n'));
+		assert.strictEqual(formatDecimal(parseAmount('1.500 EUR', styles)!.value), '1500');
+		assert.strictEqual(formatDecimal(parseAmount('1,5 EUR', styles)!.value), '1.5');
+
+		const dollars = collectCommodityStyles(parseJournal('commodity $1,000.00 ; dollars\n'));
+		assert.strictEqual(formatDecimal(parseAmount('$1,500', dollars)!.value), '1500');
+		assert.strictEqual(formatDecimal(parseAmount('1,500 EUR', dollars)!.value), '1.500', 'Undeclared commodities are still guessed');
+	});
+
+	it('collectCommodityStyles - lets the first amount that shows the decimal mark decide an ambiguous one', () => {
+		const styles = collectCommodityStyles(parseJournal(`2025-01-01 Test
+  expenses:rent    $1,500
+  expenses:food    $2.50
+  expenses:hotel    1.500 EUR
+  expenses:travel    EUR 1.500,5
+  expenses:misc    1,500 CHF
+  assets:cash`));
+
+		assert.deepStrictEqual(styles.inferred.get('$'), { side: 'left', spaced: false, precision: 2, decimalMark: '.', digitGroupMark: ',' });
+		assert.strictEqual(formatDecimal(parseAmount('$1,500', styles)!.value), '1500');
+		assert.deepStrictEqual(styles.inferred.get('EUR'), { side: 'right', spaced: true, precision: 1, decimalMark: ',', digitGroupMark: '.' });
+		assert.strictEqual(formatDecimal(parseAmount('1.500 EUR', styles)!.value), '1500');
+		assert.deepStrictEqual(styles.inferred.get('CHF'), { side: 'right', spaced: true, precision: 3, decimalMark: ',', digitGroupMark: '.' }, 'Without other amounts a single mark is the decimal mark');
+		assert.strictEqual(formatDecimal(parseAmount('1,500 CHF', styles)!.value), '1.500');
+
+		const transaction = { headerLine: 0, lines: ['2025-01-01 Test', '    expenses:rent    $1,500', '    expenses:food    $2.50', '    assets:cash'] };
+		assert.ok(calculateBalancingAmount(transaction, {}, 'assets:cash')?.endsWith('$-1,502.50'));
+	});
+
+	it('collectCommodityStyles - declared styles win over inferred ones', () => {
+		const styles = collectCommodityStyles(parseJournal(`commodity EUR
+  format 1 000,00 EUR
+D $1,000.00
+
+2025-01-01 Test
+  expenses:food    EUR 10
+  expenses:misc    ¥1500 = ¥20000
+  expenses:misc    3 AAPL @ $1.5
+  assets:cash`));
+
+		assert.deepStrictEqual(styles.declared.get('$'), { side: 'left', spaced: false, precision: 2, decimalMark: '.', digitGroupMark: ',' });
+		assert.strictEqual(styles.declared.has('EUR'), false, 'Digit groups separated by spaces are not supported');
+		assert.deepStrictEqual(styles.inferred.get('EUR'), { side: 'left', spaced: true, precision: 0, decimalMark: '.', digitGroupMark: ',' });
+		assert.deepStrictEqual(styles.inferred.get('¥'), { side: 'left', spaced: false, precision: 0, decimalMark: '.', digitGroupMark: null });
+		assert.deepStrictEqual(styles.inferred.get('AAPL'), { side: 'right', spaced: true, precision: 0, decimalMark: '.', digitGroupMark: ',' });
+		assert.strictEqual(styles.inferred.has('$'), false);
+	});
+
+	it('parsePostingAmount - unit cost', () => {
+		const result = parsePostingAmount('10 AAPL @ $150.00');
+		assert.deepStrictEqual(result?.amount, { value: parseDecimal('10'), currency: 'AAPL' });
+		assert.deepStrictEqual(result?.cost, { kind: 'unit', amount: { value: parseDecimal('150.00'), currency: '$' } });
+	});
+
+	it('parsePostingAmount - total cost', () => {
+		const result = parsePostingAmount('€100 @@ $108.00');
+		assert.deepStrictEqual(result?.amount, { value: parseDecimal('100'), currency: '€' });
+		assert.deepStrictEqual(result?.cost, { kind: 'total', amount: { value: parseDecimal('108.00'), currency: '$' } });
+	});
+
+	it('parsePostingAmount - lot price, lot date and lot note', () => {
+		const result = parsePostingAmount('-10 AAPL {=$150.00} [2024-01-15] (first lot) @ $170.00');
+		assert.deepStrictEqual(result?.lotPrice, { kind: 'unit', amount: { value: parseDecimal('150.00'), currency: '$' }, fixed: true });
+		assert.strictEqual(result?.lotDate, '2024-01-15');
+		assert.deepStrictEqual(result?.cost, { kind: 'unit', amount: { value: parseDecimal('170.00'), currency: '$' } });
+	});
+
+	it('parsePostingAmount - incomplete cost', () => {
+		assert.strictEqual(parsePostingAmount('10 AAPL @'), null);
+	});
+
 	it('formatAmountValue - positive with symbolBeforeSign', () => {
-		const result = formatAmountValue(100.50, '$', 'symbolBeforeSign');
+		const result = formatAmountValue(parseDecimal('100.50')!, '$', 'symbolBeforeSign');
 		assert.strictEqual(result, '$100.50');
 	});
 
 	it('formatAmountValue - negative with symbolBeforeSign', () => {
-		const result = formatAmountValue(-100.50, '$', 'symbolBeforeSign');
+		const result = formatAmountValue(parseDecimal('-100.50')!, '$', 'symbolBeforeSign');
 		assert.strictEqual(result, '$-100.50');
 	});
 
 	it('formatAmountValue - negative with signBeforeSymbol', () => {
-		const result = formatAmountValue(-100.50, '$', 'signBeforeSymbol');
+		const result = formatAmountValue(parseDecimal('-100.50')!, '$', 'signBeforeSymbol');
 		assert.strictEqual(result, '-$100.50');
 	});
 
 	it('formatAmountValue - large amount with commas', () => {
-		const result = formatAmountValue(1234.56, '$', 'symbolBeforeSign');
+		const result = formatAmountValue(parseDecimal('1234.56')!, '$', 'symbolBeforeSign');
 		assert.strictEqual(result, '$1,234.56');
 	});
 
+	it('formatAmountValue - decimal comma and no digit groups', () => {
+		const value = parseDecimal('-1234567.5')!;
+		assert.strictEqual(formatAmountValue(value, 'EUR', 'symbolBeforeSign', { side: 'right', spaced: true, precision: 2, decimalMark: ',', digitGroupMark: '.' }), '-1.234.567,50 EUR');
+		assert.strictEqual(formatAmountValue(value, '¥', 'signBeforeSymbol', { side: 'left', spaced: false, precision: 0, decimalMark: '.', digitGroupMark: null }), '-¥1234567.5');
+	});
+
 	it('formatAmountValue - simple commodity name', () => {
-		const result = formatAmountValue(100.50, 'USD', 'symbolBeforeSign');
+		const result = formatAmountValue(parseDecimal('100.50')!, 'USD', 'symbolBeforeSign');
 		assert.strictEqual(result, 'USD100.50');
 	});
 
 	it('formatAmountValue - quoted commodity name', () => {
-		const result = formatAmountValue(100.50, '"US Dollar"', 'symbolBeforeSign');
+		const result = formatAmountValue(parseDecimal('100.50')!, '"US Dollar"', 'symbolBeforeSign');
 		assert.strictEqual(result, '"US Dollar"100.50');
 	});
 
@@ -918,6 +1652,275 @@ describe('Hledger Formatter Tests', () => {
 		assert.ok(result.includes('$-100.00'), 'Should contain the correct amount');
 	});
 
+	it('calculateBalancingAmount - leaves out virtual postings and balances bracketed ones separately', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Savings',
+				'    (budget:savings)    $500.00',
+				'    assets:savings    $100.00',
+				'    [assets:savings:goal]    $100.00',
+				'    [assets:savings:unallocated]',
+				'    * assets:checking'
+			]
+		};
+
+		const regular = calculateBalancingAmount(transaction, {}, 'assets:checking', { currentLineText: '    * assets:checking' });
+		assert.strictEqual(regular?.trim(), '$-100.00', 'Virtual and balanced virtual postings should not count');
+
+		const balancedVirtual = calculateBalancingAmount(transaction, {}, 'assets:savings:unallocated', { currentLineText: '    [assets:savings:unallocated]' });
+		assert.strictEqual(balancedVirtual?.trim(), '$-100.00');
+		assert.strictEqual(calculateBalancingAmount(transaction, {}, 'budget:savings', { currentLineText: '    (budget:savings)' }), null);
+	});
+
+	it('Normalizes posting status markers and virtual posting brackets', () => {
+		const testInput = `2025-03-01 Transfer
+  *   assets:checking    $-50
+  !( budget:savings )  $50
+  [assets:savings]  $50`;
+
+		const lines = formatHledgerJournal(testInput).split('\n');
+		assert.strictEqual(lines[1], '    * assets:checking  $-50');
+		assert.strictEqual(lines[2], '    ! (budget:savings)  $50');
+		assert.strictEqual(lines[3], '    [assets:savings]    $50');
+	});
+
+	it('calculateBalancingAmount - ignores balance assertions', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Test',
+				'    assets:cash    $100.00 = $500.00',
+				'    income:salary'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, {
+			amountAlignment: 'widest',
+			negativeCommodityStyle: 'symbolBeforeSign'
+		}, 'income:salary');
+
+		assert.ok(result, 'Should calculate balancing amount');
+		assert.ok(result.endsWith('$-100.00'), 'Should balance the posted amount, not the asserted balance');
+	});
+
+	it('calculateBalancingAmount - converts through a unit cost', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Buy shares',
+				'    assets:brokerage    10 AAPL @ $150.00',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash');
+		assert.ok(result?.endsWith('$-1,500.00'), 'Should balance the cost of the shares');
+	});
+
+	it('calculateBalancingAmount - converts through a total cost', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Exchange',
+				'    assets:euro    €100.00 @@ $108.00',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash');
+		assert.ok(result?.endsWith('$-108.00'), 'Should balance the total cost');
+	});
+
+	it('calculateBalancingAmount - prefers the cost over the lot price', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Sell shares',
+				'    assets:brokerage    -10 AAPL {$150.00} [2024-01-15] @ $170.00',
+				'    assets:cash    $1500.00',
+				'    income:gains'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'income:gains');
+		assert.ok(result?.endsWith('$200.00'), 'Should balance the sale price against the proceeds');
+	});
+
+	it('calculateBalancingAmounts - one amount per unbalanced commodity', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Trip',
+				'    expenses:food    $12.50',
+				'    expenses:hotel    80 EUR',
+				'    expenses:fees    $0.50',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmounts(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash');
+		assert.deepStrictEqual(result.map(amount => amount.trim()), ['$-13.00', '-80 EUR']);
+		assert.strictEqual(calculateBalancingAmount(transaction, {}, 'assets:cash'), null,
+			'The single-amount API should not pick one of several commodities');
+	});
+
+	it('calculateBalancingAmounts - keeps the precision of each commodity', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Mixed precision',
+				'    assets:crypto    0.12345678 BTC',
+				'    assets:yen    ¥1000',
+				'    expenses:fees    0.1 BTC',
+				'    expenses:fees    ¥-1',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmounts(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash');
+		assert.deepStrictEqual(result.map(amount => amount.trim()), ['-0.22345678 BTC', '¥-999']);
+	});
+
+	it('calculateBalancingAmounts - sums many small amounts exactly', () => {
+		const lines = ['2025-10-22 * Many small amounts'];
+		for (let i = 0; i < 30; i++) {
+			lines.push('    expenses:misc    $0.10');
+		}
+		lines.push('    expenses:misc    $-3.00');
+		lines.push('    assets:cash');
+
+		const result = calculateBalancingAmounts({ headerLine: 0, lines }, {}, 'assets:cash');
+		assert.deepStrictEqual(result, [], 'A transaction that balances exactly should get no suggestion');
+	});
+
+	it('calculateBalancingAmounts - uses the journal commodity styles', () => {
+		const journal = `decimal-mark ,
+commodity 1.000,00 EUR
+
+2025-10-22 * Rent
+    expenses:rent    EUR 1250
+    assets:checking`;
+		const transaction = { headerLine: 0, lines: journal.split('\n').slice(3) };
+		const commodityStyles = collectCommodityStyles(parseJournal(journal));
+
+		const result = calculateBalancingAmounts(transaction, {}, 'assets:checking', { commodityStyles });
+		assert.deepStrictEqual(result.map(amount => amount.trim()), ['-1.250,00 EUR']);
+	});
+
+	it('calculateBalancingAmount - lines up decimal marks with decimal alignment', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Groceries',
+				'    expenses:food        $5.00',
+				'    expenses:rent    $1,250.00',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, { amountAlignment: 'decimal' }, 'assets:cash', {
+			currentLineText: '    assets:cash',
+			cursorColumn: 15
+		});
+		assert.strictEqual(result, '     $-1,255.00');
+		assert.strictEqual(`    assets:cash${result}`.indexOf('.'), transaction.lines[1].indexOf('.'));
+	});
+
+	it('calculateBalancingAmount - uses the configured commodity layout', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Lunch',
+				'    expenses:food    CHF 12.50',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, {
+			commodityLayouts: { CHF: { commoditySide: 'right', negativeCommodityStyle: 'signBeforeSymbol' } }
+		}, 'assets:cash');
+		assert.strictEqual(result?.trim(), '-12.50 CHF');
+	});
+
+	it('calculateBalancingAmount - pads by display width', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-03-01 Lunch',
+				'    expenses:食費    ¥1200',
+				'    assets:現金'
+			]
+		};
+
+		const result = calculateBalancingAmount(transaction, {}, 'assets:現金', {
+			currentLineText: '    assets:現金',
+			cursorColumn: '    assets:現金'.length
+		});
+		// The first digits line up at display column 22, under the ¥1200 above
+		assert.strictEqual(result, '     ¥-1200');
+	});
+
+	it('calculateBalancingAmounts - skips commodities that already balance', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Transfer',
+				'    assets:euro    80 EUR',
+				'    assets:savings    -80 EUR',
+				'    expenses:fees    $1.00',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingAmounts(transaction, { negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash');
+		assert.deepStrictEqual(result.map(amount => amount.trim()), ['$-1.00']);
+	});
+
+	it('calculateBalancingInsertion - measures tabs up to the next tab stop', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Lunch',
+				'\texpenses:food\t\t$12.50',
+				'\tassets:cash'
+			]
+		};
+
+		const result = calculateBalancingInsertion(transaction, { amountAlignment: 'widest', negativeCommodityStyle: 'symbolBeforeSign', tabWidth: 8 }, 'assets:cash', {
+			currentLineText: '\tassets:cash',
+			cursorColumn: 12
+		});
+		// The digits of $12.50 start at column 33 and the account ends at column 19
+		assert.strictEqual(result, `${' '.repeat(12)}$-12.50`);
+	});
+
+	it('calculateBalancingInsertion - adds a posting for each further commodity', () => {
+		const transaction = {
+			headerLine: 0,
+			lines: [
+				'2025-10-22 * Trip',
+				'    expenses:food     $12.50',
+				'    expenses:hotel    80 EUR',
+				'    assets:cash'
+			]
+		};
+
+		const result = calculateBalancingInsertion(transaction, { amountAlignment: 'widest', negativeCommodityStyle: 'symbolBeforeSign' }, 'assets:cash', {
+			currentLineText: '    assets:cash',
+			cursorColumn: 15
+		});
+		assert.strictEqual(result, '      $-12.50\n    assets:cash       -80 EUR');
+	});
+
+	it('inferCommodityStyle - reads side, spacing and precision', () => {
+		assert.deepStrictEqual(inferCommodityStyle(['10 AAPL @ $150.00'], 'AAPL'), { side: 'right', spaced: true, precision: 0, decimalMark: '.', digitGroupMark: ',' });
+		assert.deepStrictEqual(inferCommodityStyle(['10 AAPL @ $150.00'], '$'), { side: 'left', spaced: false, precision: 2, decimalMark: '.', digitGroupMark: ',' });
+		assert.deepStrictEqual(inferCommodityStyle(['EUR 5', 'EUR -2.125'], 'EUR'), { side: 'left', spaced: true, precision: 3, decimalMark: '.', digitGroupMark: ',' });
+		assert.deepStrictEqual(inferCommodityStyle(['1.234,5 EUR', 'EUR 5'], 'EUR'), { side: 'right', spaced: true, precision: 1, decimalMark: ',', digitGroupMark: '.' });
+		assert.strictEqual(inferCommodityStyle(['$5'], 'EUR'), null);
+	});
+
 	it('calculateBalancingAmount - respects signBeforeSymbol style', () => {
 		const transaction = {
 			headerLine: 0,
@@ -0,0 +1,250 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { parseJournal, parseTags, printJournal, findNodeAtLine, type TransactionNode } from '../src/index';
+
+describe('Journal Parser Tests', () => {
+
+	const testsPath = path.join(__dirname, 'test_journals');
+
+	it('Round-trips every test journal through the printer', () => {
+		for (const filename of fs.readdirSync(testsPath)) {
+			const text = fs.readFileSync(path.join(testsPath, filename), 'utf8');
+			assert.strictEqual(printJournal(parseJournal(text)), text, `${filename} should print back unchanged`);
+		}
+	});
+
+	it('Parses transactions, directives, comments and blank runs', () => {
+		const journal = parseJournal(`; header comment
+; second line
+
+account assets:cash
+    ; subdirective comment
+
+2025-03-01 * (42) Grocery Store  ; receipt
+    expenses:food    $10.00
+    ; inline note
+    assets:cash
+
+comment
+ignored
+end comment`);
+
+		assert.deepStrictEqual(journal.nodes.map(node => node.type), [
+			'commentBlock', 'blankRun', 'directive', 'blankRun', 'transaction', 'blankRun', 'commentBlock'
+		]);
+
+		const directive = journal.nodes[2];
+		assert.ok(directive.type === 'directive');
+		assert.strictEqual(directive.keyword, 'account');
+		assert.strictEqual(directive.argument, 'assets:cash');
+		assert.strictEqual(directive.children.length, 1);
+		assert.strictEqual(directive.children[0].type, 'comment');
+
+		const transaction = journal.nodes[4] as TransactionNode;
+		assert.strictEqual(transaction.header.date.raw, '2025-03-01');
+		assert.deepStrictEqual(transaction.header.date.components, { year: 2025, month: 3, day: 1 });
+		assert.strictEqual(transaction.header.secondaryDate, null);
+		assert.strictEqual(transaction.header.status, '*');
+		assert.strictEqual(transaction.header.code, '42');
+		assert.strictEqual(transaction.header.description, 'Grocery Store');
+		assert.strictEqual(transaction.header.comment, '; receipt');
+		assert.deepStrictEqual(transaction.children.map(child => child.type), ['posting', 'comment', 'posting']);
+		assert.strictEqual(transaction.postings[0].account, 'expenses:food');
+		assert.strictEqual(transaction.postings[0].amount, '$10.00');
+		assert.strictEqual(transaction.postings[1].amount, null);
+
+		const block = journal.nodes[6];
+		assert.ok(block.type === 'commentBlock');
+		assert.strictEqual(block.delimited, true);
+		assert.strictEqual(block.terminated, true);
+	});
+
+	it('Records zero-based spans for nodes', () => {
+		const journal = parseJournal(`2025-03-01 Test
+  expenses:food    $10.00
+  assets:cash`);
+
+		const transaction = journal.nodes[0] as TransactionNode;
+		assert.deepStrictEqual(transaction.span, { start: { line: 0, column: 0 }, end: { line: 2, column: 13 } });
+		assert.deepStrictEqual(transaction.postings[0].span, { start: { line: 1, column: 2 }, end: { line: 1, column: 25 } });
+		assert.strictEqual(transaction.postings[1].raw, '  assets:cash');
+	});
+
+	it('Keeps unindented postings but ends transactions at unindented comments and directives', () => {
+		const journal = parseJournal(`2025-03-01 Test
+expenses:food    $10.00
+  assets:cash
+; top-level comment
+2025-03-02 Other
+  expenses:food    $5.00
+  assets:cash
+include other.journal`);
+
+		assert.deepStrictEqual(journal.nodes.map(node => node.type), ['transaction', 'commentBlock', 'transaction', 'directive']);
+		assert.strictEqual((journal.nodes[0] as TransactionNode).postings.length, 2);
+	});
+
+	it('Parses periodic transactions and auto posting rules', () => {
+		const journal = parseJournal(`~ monthly from 2025-01  Budget  ; plan
+  expenses:food    $400.00
+  assets:checking
+= expenses:food
+  (budget:food)    *-1`);
+
+		assert.deepStrictEqual(journal.nodes.map(node => node.type), ['periodicTransaction', 'autoPostingRule']);
+
+		const periodic = journal.nodes[0];
+		assert.ok(periodic.type === 'periodicTransaction');
+		assert.strictEqual(periodic.header.period, 'monthly from 2025-01');
+		assert.strictEqual(periodic.header.description, 'Budget');
+		assert.strictEqual(periodic.header.comment, '; plan');
+		assert.strictEqual(periodic.postings.length, 2);
+
+		const rule = journal.nodes[1];
+		assert.ok(rule.type === 'autoPostingRule');
+		assert.strictEqual(rule.header.query, 'expenses:food');
+		assert.strictEqual(rule.postings[0].account, 'budget:food');
+		assert.strictEqual(rule.postings[0].postingType, 'virtual');
+		assert.strictEqual(rule.postings[0].amount, '*-1');
+	});
+
+	it('Parses secondary dates and resolves short dates against year directives', () => {
+		const journal = parseJournal(`Y 2023
+
+1/5=1/7 Short dates
+  expenses:food    $10.00
+  assets:cash
+
+2024-12-30=2025/1/2 Secondary date
+  expenses:food    $10.00
+  assets:cash`);
+
+		const short = journal.nodes[2] as TransactionNode;
+		assert.deepStrictEqual(short.header.date, { raw: '1/5', components: { year: 2023, month: 1, day: 5 }, short: true });
+		assert.deepStrictEqual(short.header.secondaryDate, { raw: '1/7', components: { year: 2023, month: 1, day: 7 }, short: true });
+		assert.strictEqual(short.header.description, 'Short dates');
+
+		const full = journal.nodes[4] as TransactionNode;
+		assert.deepStrictEqual(full.header.secondaryDate?.components, { year: 2025, month: 1, day: 2 });
+		assert.strictEqual(full.header.description, 'Secondary date');
+	});
+
+	it('Splits balance assertions and assignments off posting amounts', () => {
+		const journal = parseJournal(`2025-03-01 Reconcile
+  assets:checking    $10.00 ==* $500.00
+  assets:cash    = $50.00
+  equity`);
+
+		const [asserted, assigned, plain] = (journal.nodes[0] as TransactionNode).postings;
+		assert.strictEqual(asserted.amount, '$10.00');
+		assert.strictEqual(asserted.assertionOperator, '==*');
+		assert.strictEqual(asserted.assertion, '$500.00');
+		assert.strictEqual(assigned.amount, null);
+		assert.strictEqual(assigned.assertionOperator, '=');
+		assert.strictEqual(assigned.assertion, '$50.00');
+		assert.strictEqual(plain.assertionOperator, null);
+	});
+
+	it('Splits trailing comments off postings', () => {
+		const journal = parseJournal(`2025-03-01 Lunch
+  expenses:food  $12  ; lunch, client:acme
+  expenses:tips    $2.50 = $10 # tip
+  assets:cash;paid
+  expenses:gifts    5 "Gift; Card"`);
+
+		const [food, tips, cash, gifts] = (journal.nodes[0] as TransactionNode).postings;
+		assert.strictEqual(food.amount, '$12');
+		assert.strictEqual(food.comment, '; lunch, client:acme');
+		assert.strictEqual(food.commentGap, '  ');
+		assert.strictEqual(tips.assertion, '$10 # tip', 'Only ; starts a trailing comment');
+		assert.strictEqual(tips.comment, null);
+		assert.strictEqual(cash.account, 'assets:cash');
+		assert.strictEqual(cash.amount, null);
+		assert.strictEqual(cash.comment, ';paid');
+		assert.strictEqual(cash.commentGap, '');
+		assert.strictEqual(gifts.amount, '5 "Gift; Card"');
+		assert.strictEqual(gifts.comment, null);
+	});
+
+	it('Splits descriptions into payee and note', () => {
+		const journal = parseJournal(`2025-03-01 !Grocery  Store | weekly  shop
+  expenses:food  $12
+  assets:cash
+
+2025-03-02 * Rent
+  expenses:rent  $900
+  assets:cash`);
+
+		const [first, , second] = journal.nodes as TransactionNode[];
+		assert.strictEqual(first.header.status, '!');
+		assert.strictEqual(first.header.statusSpaced, false);
+		assert.strictEqual(first.header.payee, 'Grocery  Store');
+		assert.strictEqual(first.header.note, 'weekly  shop');
+		assert.strictEqual(second.header.statusSpaced, true);
+		assert.strictEqual(second.header.payee, 'Rent');
+		assert.strictEqual(second.header.note, null);
+	});
+
+	it('Parses tags in trailing comments and comment lines', () => {
+		const journal = parseJournal(`2025-03-01 Lunch  ; project:house, receipt:2024/01.pdf
+    ; reviewed:
+  expenses:food  $12  ; lunch, client: acme
+  assets:cash`);
+
+		const transaction = journal.nodes[0] as TransactionNode;
+		assert.deepStrictEqual(transaction.header.tags, [{ name: 'project', value: 'house' }, { name: 'receipt', value: '2024/01.pdf' }]);
+		const [comment, food] = transaction.children;
+		assert.deepStrictEqual(comment.tags, [{ name: 'reviewed', value: '' }]);
+		assert.deepStrictEqual(food.tags, [{ name: 'client', value: 'acme' }]);
+		assert.deepStrictEqual(transaction.postings[1].tags, []);
+		assert.deepStrictEqual(parseTags('; no tags here'), []);
+	});
+
+	it('Parses posting status markers and virtual postings', () => {
+		const journal = parseJournal(`2025-03-01 Transfer
+  *  assets:checking    $-50
+  ! (budget:savings)  $50
+  [assets:savings:goal]  $50
+  [assets:checking:reserved]`);
+
+		const [checking, budget, goal, reserved] = (journal.nodes[0] as TransactionNode).postings;
+		assert.deepStrictEqual([checking.status, checking.postingType, checking.account, checking.amount], ['*', 'regular', 'assets:checking', '$-50']);
+		assert.deepStrictEqual([budget.status, budget.postingType, budget.account], ['!', 'virtual', 'budget:savings']);
+		assert.deepStrictEqual([goal.status, goal.postingType, goal.account], ['', 'balancedVirtual', 'assets:savings:goal']);
+		assert.strictEqual(reserved.postingType, 'balancedVirtual');
+		assert.strictEqual(reserved.amount, null);
+	});
+
+	it('Does not mistake a fixed lot price for a balance assertion', () => {
+		const journal = parseJournal(`2025-03-01 Buy
+  assets:brokerage    10 AAPL {=$150.00} @ $155.00
+  assets:cash`);
+
+		const [posting] = (journal.nodes[0] as TransactionNode).postings;
+		assert.strictEqual(posting.amount, '10 AAPL {=$150.00} @ $155.00');
+		assert.strictEqual(posting.assertionOperator, null);
+	});
+
+	it('Marks unterminated comment blocks', () => {
+		const journal = parseJournal('comment\nnever closed\n');
+		const block = journal.nodes[0];
+		assert.ok(block.type === 'commentBlock');
+		assert.strictEqual(block.terminated, false);
+		assert.strictEqual(journal.nodes.length, 1);
+	});
+
+	it('Finds the node covering a line', () => {
+		const journal = parseJournal(`; comment
+
+2025-03-01 Test
+  expenses:food    $10.00
+  assets:cash`);
+
+		assert.strictEqual(findNodeAtLine(journal, 0)?.type, 'commentBlock');
+		assert.strictEqual(findNodeAtLine(journal, 4)?.type, 'transaction');
+		assert.strictEqual(findNodeAtLine(journal, 5), null);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { findFormatterWarnings, formatHledgerJournal, parseJournal, sortHledgerJournal, verifyJournalEquivalence, type FormatterOptions } from '../src/index';
+
+describe('Journal Equivalence Tests', () => {
+
+	const testsPath = path.join(__dirname, 'test_journals');
+
+	const journal = [
+		'account assets:cash',
+		'',
+		'; note',
+		'2025-03-01 * Lunch  ; project:house',
+		'  expenses:food    $12.00',
+		'  assets:cash',
+		'',
+		'2025-03-02 Dinner',
+		'  expenses:food  $20',
+		'  assets:cash',
+		''
+	].join('\n');
+
+	function getMessages(original: string, result: string): string[] {
+		return verifyJournalEquivalence(original, result).differences.map(difference => difference.message);
+	}
+
+	it('Finds every test journal unchanged in meaning after formatting and sorting', () => {
+		const optionSets: Array<Partial<FormatterOptions>> = [
+			{},
+			{ normalizeAmounts: true, normalizeComments: true, dateFormat: 'YYYY/MM/DD', expandShortDates: true },
+			{ normalizeTags: true, sortTags: true, tagPlacement: 'separateLine', normalizeDescriptions: true, maxBlankLines: 1 }
+		];
+		for (const filename of fs.readdirSync(testsPath).filter(name => name.endsWith('_in.journal'))) {
+			const text = fs.readFileSync(path.join(testsPath, filename), 'utf8');
+			// Formatting separates amounts written a single space after their account, which hledger reads as part of it
+			const guessed = findFormatterWarnings(parseJournal(text)).some(warning => warning.code === 'guessed-separator');
+			for (const options of optionSets) {
+				const report = verifyJournalEquivalence(text, formatHledgerJournal(text, options), options);
+				if (guessed) {
+					assert.strictEqual(report.equivalent, false, `${filename} with ${JSON.stringify(options)}`);
+					for (const difference of report.differences) {
+						assert.match(difference.message, /: account of posting \d+ changed from /);
+					}
+					continue;
+				}
+				assert.deepStrictEqual(report.differences, [], `${filename} with ${JSON.stringify(options)}`);
+				assert.strictEqual(report.equivalent, true);
+			}
+			assert.strictEqual(verifyJournalEquivalence(text, sortHledgerJournal(text)).equivalent, true, `${filename} sorted`);
+		}
+	});
+
+	it('Reports changed amounts and postings with their lines', () => {
+		assert.deepStrictEqual(verifyJournalEquivalence(journal, journal.replace('$12.00', '$12.50')), {
+			equivalent: false,
+			differences: [{
+				line: 3,
+				resultLine: 3,
+				message: 'Transaction "2025-03-01 Lunch": amount of posting 1 changed from "12 $" to "12.5 $"'
+			}]
+		});
+		assert.deepStrictEqual(getMessages(journal, journal.replace('  assets:cash\n\n2025-03-02', '\n2025-03-02')), [
+			'Transaction "2025-03-01 Lunch": number of postings changed from "2" to "1"'
+		]);
+		assert.deepStrictEqual(getMessages(journal, journal.replace('project:house', 'project:home')), [
+			'Transaction "2025-03-01 Lunch": header tags changed from "project:house" to "project:home"'
+		]);
+	});
+
+	it('Reports entries missing from the result or added to it', () => {
+		assert.deepStrictEqual(verifyJournalEquivalence(journal, journal.replace('; note\n', '')).differences, [
+			{ line: 2, resultLine: null, message: 'Comment "; note" is missing from the result' }
+		]);
+		assert.deepStrictEqual(verifyJournalEquivalence(journal, journal.replace('2025-03-02 Dinner', '2025-03-03 Dinner')).differences, [
+			{ line: 7, resultLine: null, message: 'Transaction "2025-03-02 Dinner" is missing from the result' },
+			{ line: null, resultLine: 7, message: 'Transaction "2025-03-03 Dinner" is not in the original' }
+		]);
+	});
+
+	it('Reports an amount separated from its account by a single space as part of the account', () => {
+		const original = '2025-03-01 Lunch\n  expenses:food $1\n  assets:cash\n';
+		const formatted = formatHledgerJournal(original);
+
+		assert.strictEqual(formatted, '2025-03-01 Lunch\n    expenses:food  $1\n    assets:cash\n');
+		assert.deepStrictEqual(getMessages(original, formatted), [
+			'Transaction "2025-03-01 Lunch": account of posting 1 changed from "expenses:food $1" to "expenses:food"'
+		]);
+		assert.strictEqual(verifyJournalEquivalence(original, original).equivalent, true);
+	});
+
+	it('Treats payee rewrites as intended only when given the options that made them', () => {
+		const options = { payeeRewrites: { Lunch: 'Cafe' } };
+		const formatted = formatHledgerJournal(journal, options);
+
+		assert.strictEqual(verifyJournalEquivalence(journal, formatted, options).equivalent, true);
+		assert.deepStrictEqual(getMessages(journal, formatted), ['Transaction "2025-03-01 Lunch": payee changed from "Lunch" to "Cafe"']);
+	});
+});
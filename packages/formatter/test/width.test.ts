@@ -0,0 +1,44 @@
+import { describe, it } from 'vitest';
+import * as assert from 'assert';
+
+import { getDisplayWidth, padEndToWidth } from '../src/index';
+
+describe('Display Width Tests', () => {
+
+	it('Counts ASCII characters as one column each', () => {
+		assert.strictEqual(getDisplayWidth('expenses:food'), 13);
+		assert.strictEqual(getDisplayWidth(''), 0);
+	});
+
+	it('Counts East Asian wide and fullwidth characters as two columns', () => {
+		assert.strictEqual(getDisplayWidth('食費'), 4);
+		assert.strictEqual(getDisplayWidth('한국'), 4);
+		assert.strictEqual(getDisplayWidth('￥100'), 5);
+		assert.strictEqual(getDisplayWidth('ｱ'), 1, 'Halfwidth katakana stays narrow');
+	});
+
+	it('Counts combining marks and zero-width characters as zero columns', () => {
+		assert.strictEqual(getDisplayWidth('cafe\u0301'), 4);
+		assert.strictEqual(getDisplayWidth('a\u200Bb'), 2, 'Zero-width space');
+	});
+
+	it('Counts each emoji as two columns, including sequences', () => {
+		assert.strictEqual(getDisplayWidth('🍕'), 2);
+		assert.strictEqual(getDisplayWidth('❤️'), 2);
+		assert.strictEqual(getDisplayWidth('👨‍👩‍👧'), 2);
+		assert.strictEqual(getDisplayWidth('🇯🇵'), 2);
+	});
+
+	it('Counts a tab up to the next tab stop', () => {
+		assert.strictEqual(getDisplayWidth('\texpenses'), 12);
+		assert.strictEqual(getDisplayWidth('ab\tc'), 5);
+		assert.strictEqual(getDisplayWidth('abcd\t'), 8, 'A tab at a tab stop moves a full tab width');
+		assert.strictEqual(getDisplayWidth('食\t', 8), 8);
+		assert.strictEqual(getDisplayWidth('ab\tc', 8), 9);
+	});
+
+	it('Pads to a display width', () => {
+		assert.strictEqual(padEndToWidth('円', 4), '円  ');
+		assert.strictEqual(padEndToWidth('EUR', 2), 'EUR');
+	});
+});
@@ -7,19 +7,40 @@ import {
 	type NegativeCommodityStyle,
 	type DateFormatStyle,
 	type CommentCharacter,
+	type CommentAlignment,
+	type CommoditySpacing,
+	type CommoditySide,
+	type CommodityLayout,
+	type TagPlacement,
+	type StatusSpacing,
+	type LineEnding,
+	type IndentStyle,
 	type FormatterOptions,
+	type SortOptions,
+	type UndatedEntryPlacement,
 	DEFAULT_FORMATTER_OPTIONS,
+	DEFAULT_SORT_OPTIONS,
 	isCommentLine,
 	isMetadataPostingLine,
 	isMetadataPostingAccount,
 	isTransactionHeaderLine,
 	extractPostingDetail,
 	formatHledgerJournal,
+	formatHledgerJournalRange,
 	sortHledgerJournal,
+	verifyJournalEquivalence,
+	computeLineEdits,
+	mapPosition,
 	toggleCommentLines,
 	parseAmount,
 	formatAmountValue,
-	calculateBalancingAmount
+	calculateBalancingAmounts,
+	calculateBalancingInsertion,
+	collectCommodityStyles,
+	parseJournal,
+	readSourceText,
+	findFormatterWarnings,
+	findNodeAtLine
 } from '@hledger-fmt/formatter';
 
 function getFormatterOptionsFromConfiguration(config?: vscode.WorkspaceConfiguration): FormatterOptions {
@@ -28,9 +49,151 @@ function getFormatterOptionsFromConfiguration(config?: vscode.WorkspaceConfigura
 		amountColumnPosition: sourceConfig.get<number>('amountColumnPosition', DEFAULT_FORMATTER_OPTIONS.amountColumnPosition),
 		amountAlignment: sourceConfig.get<AmountAlignment>('amountAlignment', DEFAULT_FORMATTER_OPTIONS.amountAlignment),
 		indentationWidth: sourceConfig.get<number>('indentationWidth', DEFAULT_FORMATTER_OPTIONS.indentationWidth),
+		indentStyle: sourceConfig.get<IndentStyle>('indentStyle', DEFAULT_FORMATTER_OPTIONS.indentStyle),
+		tabWidth: sourceConfig.get<number>('tabWidth', DEFAULT_FORMATTER_OPTIONS.tabWidth),
 		negativeCommodityStyle: sourceConfig.get<NegativeCommodityStyle>('negativeCommodityStyle', DEFAULT_FORMATTER_OPTIONS.negativeCommodityStyle),
 		dateFormat: sourceConfig.get<DateFormatStyle>('dateFormat', DEFAULT_FORMATTER_OPTIONS.dateFormat),
-		commentCharacter: sourceConfig.get<CommentCharacter>('commentCharacter', DEFAULT_FORMATTER_OPTIONS.commentCharacter)
+		commentCharacter: sourceConfig.get<CommentCharacter>('commentCharacter', DEFAULT_FORMATTER_OPTIONS.commentCharacter),
+		expandShortDates: sourceConfig.get<boolean>('expandShortDates', DEFAULT_FORMATTER_OPTIONS.expandShortDates),
+		alignBalanceAssertions: sourceConfig.get<boolean>('alignBalanceAssertions', DEFAULT_FORMATTER_OPTIONS.alignBalanceAssertions),
+		normalizeAmounts: sourceConfig.get<boolean>('normalizeAmounts', DEFAULT_FORMATTER_OPTIONS.normalizeAmounts),
+		commoditySpacing: sourceConfig.get<CommoditySpacing>('commoditySpacing', DEFAULT_FORMATTER_OPTIONS.commoditySpacing),
+		commoditySide: sourceConfig.get<CommoditySide>('commoditySide', DEFAULT_FORMATTER_OPTIONS.commoditySide),
+		commodityLayouts: sourceConfig.get<Record<string, CommodityLayout>>('commodityLayouts', DEFAULT_FORMATTER_OPTIONS.commodityLayouts),
+		commentAlignment: sourceConfig.get<CommentAlignment>('commentAlignment', DEFAULT_FORMATTER_OPTIONS.commentAlignment),
+		commentColumnPosition: sourceConfig.get<number>('commentColumnPosition', DEFAULT_FORMATTER_OPTIONS.commentColumnPosition),
+		normalizeComments: sourceConfig.get<boolean>('normalizeComments', DEFAULT_FORMATTER_OPTIONS.normalizeComments),
+		normalizeTags: sourceConfig.get<boolean>('normalizeTags', DEFAULT_FORMATTER_OPTIONS.normalizeTags),
+		sortTags: sourceConfig.get<boolean>('sortTags', DEFAULT_FORMATTER_OPTIONS.sortTags),
+		tagPlacement: sourceConfig.get<TagPlacement>('tagPlacement', DEFAULT_FORMATTER_OPTIONS.tagPlacement),
+		normalizeDescriptions: sourceConfig.get<boolean>('normalizeDescriptions', DEFAULT_FORMATTER_OPTIONS.normalizeDescriptions),
+		payeeRewrites: sourceConfig.get<Record<string, string>>('payeeRewrites', DEFAULT_FORMATTER_OPTIONS.payeeRewrites),
+		statusSpacing: sourceConfig.get<StatusSpacing>('statusSpacing', DEFAULT_FORMATTER_OPTIONS.statusSpacing),
+		blankLinesBetweenTransactions: sourceConfig.get<number>('blankLinesBetweenTransactions', DEFAULT_FORMATTER_OPTIONS.blankLinesBetweenTransactions),
+		blankLinesAroundDirectives: sourceConfig.get<number | null>('blankLinesAroundDirectives', DEFAULT_FORMATTER_OPTIONS.blankLinesAroundDirectives),
+		maxBlankLines: sourceConfig.get<number | null>('maxBlankLines', DEFAULT_FORMATTER_OPTIONS.maxBlankLines),
+		trimTrailingWhitespace: sourceConfig.get<boolean>('trimTrailingWhitespace', DEFAULT_FORMATTER_OPTIONS.trimTrailingWhitespace),
+		ensureFinalNewline: sourceConfig.get<boolean>('ensureFinalNewline', DEFAULT_FORMATTER_OPTIONS.ensureFinalNewline),
+		lineEnding: sourceConfig.get<LineEnding>('lineEnding', DEFAULT_FORMATTER_OPTIONS.lineEnding)
+	};
+}
+
+/**
+ * VS Code converts inserted text to the line endings of the document, so a line
+ * ending other than `preserve` has to switch the document itself
+ */
+function getEndOfLine(options: FormatterOptions): vscode.EndOfLine | undefined {
+	if (options.lineEnding === 'preserve') {
+		return undefined;
+	}
+	return options.lineEnding === 'crlf' ? vscode.EndOfLine.CRLF : vscode.EndOfLine.LF;
+}
+
+function getEndOfLineEdits(options: FormatterOptions): vscode.TextEdit[] {
+	const endOfLine = getEndOfLine(options);
+	return endOfLine === undefined ? [] : [vscode.TextEdit.setEndOfLine(endOfLine)];
+}
+
+/**
+ * Turns the change from a document's text to `newText` into edits of only the lines that differ,
+ * so folding, scroll position and undo history are kept for the rest of the document
+ */
+function getDocumentEdits(document: vscode.TextDocument, newText: string): vscode.TextEdit[] {
+	return computeLineEdits(document.getText(), newText).map(edit => new vscode.TextEdit(
+		new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)),
+		edit.text
+	));
+}
+
+/**
+ * Replaces the text of an editor's document with the lines that differ from `newText`, and
+ * moves the selections along with the lines they were on
+ */
+function applyDocumentText(editor: vscode.TextEditor, newText: string, endOfLine?: vscode.EndOfLine): Thenable<boolean> {
+	const document = editor.document;
+	const text = document.getText();
+	const edits = computeLineEdits(text, newText);
+	const mapSelectionPosition = (position: vscode.Position) => {
+		const mapped = mapPosition(text, edits, { line: position.line, column: position.character });
+		return new vscode.Position(mapped.line, mapped.column);
+	};
+	const selections = editor.selections.map(selection => new vscode.Selection(
+		mapSelectionPosition(selection.anchor),
+		mapSelectionPosition(selection.active)
+	));
+
+	return editor.edit((editBuilder) => {
+		for (const edit of edits) {
+			editBuilder.replace(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text);
+		}
+		if (endOfLine !== undefined) {
+			editBuilder.setEndOfLine(endOfLine);
+		}
+	}).then(success => {
+		if (success) {
+			editor.selections = selections;
+		}
+		return success;
+	});
+}
+
+/**
+ * Shows the lines of a journal the formatter had to guess at or could not read as warnings
+ */
+function updateFormatterDiagnostics(collection: vscode.DiagnosticCollection, document: vscode.TextDocument): void {
+	if (!document.fileName.endsWith('.journal') &&
+		!document.fileName.endsWith('.hledger') &&
+		!document.fileName.endsWith('.ledger')) {
+		return;
+	}
+
+	const config = vscode.workspace.getConfiguration('hledger-formatter', document.uri);
+	if (!config.get<boolean>('showFormatterWarnings', true)) {
+		collection.delete(document.uri);
+		return;
+	}
+
+	const warnings = findFormatterWarnings(parseJournal(readSourceText(document.getText()).text));
+	collection.set(document.uri, warnings.map(warning => {
+		const range = new vscode.Range(warning.line, warning.column, warning.line, document.lineAt(warning.line).text.length);
+		const diagnostic = new vscode.Diagnostic(range, warning.message, vscode.DiagnosticSeverity.Warning);
+		diagnostic.source = 'hledger-formatter';
+		diagnostic.code = warning.code;
+		return diagnostic;
+	}));
+}
+
+/**
+ * Checks that formatting or sorting kept the meaning of a journal, and explains the first
+ * difference when it did not so the result is not written
+ */
+function isMeaningKept(
+	config: vscode.WorkspaceConfiguration,
+	original: string,
+	result: string,
+	action: string,
+	options?: Partial<FormatterOptions>
+): boolean {
+	if (!config.get<boolean>('verifyFormatting', true)) {
+		return true;
+	}
+
+	const { differences } = verifyJournalEquivalence(original, result, options);
+	if (differences.length === 0) {
+		return true;
+	}
+
+	const [first] = differences;
+	const location = first.line !== null ? `line ${first.line + 1}` : `result line ${(first.resultLine ?? 0) + 1}`;
+	const more = differences.length > 1 ? ` (and ${differences.length - 1} more)` : '';
+	vscode.window.showErrorMessage(`Hledger ${action} was not applied because it would change the journal: ${location}: ${first.message}${more}`);
+	return false;
+}
+
+function getSortOptionsFromConfiguration(config?: vscode.WorkspaceConfiguration): SortOptions {
+	const sourceConfig = config ?? vscode.workspace.getConfiguration('hledger-formatter');
+	return {
+		undatedEntryPlacement: sourceConfig.get<UndatedEntryPlacement>('undatedEntryPlacement', DEFAULT_SORT_OPTIONS.undatedEntryPlacement)
 	};
 }
 
@@ -64,15 +227,13 @@ export function activate(context: vscode.ExtensionContext) {
 		const text = document.getText();
 		const config = vscode.workspace.getConfiguration('hledger-formatter');
 		const formatterOptions = getFormatterOptionsFromConfiguration(config);
-		const formattedText = formatHledgerJournal(text, formatterOptions);
+		// Line endings are converted separately so only the changed lines are replaced
+		const formattedText = formatHledgerJournal(text, { ...formatterOptions, lineEnding: 'preserve' });
+		if (!isMeaningKept(config, text, formattedText, 'formatting', formatterOptions)) {
+			return;
+		}
 
-		editor.edit((editBuilder) => {
-			const fullRange = new vscode.Range(
-				document.positionAt(0),
-				document.positionAt(text.length)
-			);
-			editBuilder.replace(fullRange, formattedText);
-		}).then(success => {
+		applyDocumentText(editor, formattedText, getEndOfLine(formatterOptions)).then(success => {
 			if (success) {
 				vscode.window.showInformationMessage('Hledger journal formatted successfully.');
 			} else {
@@ -95,27 +256,31 @@ export function activate(context: vscode.ExtensionContext) {
 			const sortOnSave = config.get('sortOnSave', false);
 
 			if (formatOnSave || sortOnSave) {
-				let text = document.getText();
+				const originalText = document.getText();
+				let text = originalText;
+				const endOfLineEdits: vscode.TextEdit[] = [];
+				let formatterOptions: FormatterOptions | undefined;
 
 				// Apply sorting first if enabled
 				if (sortOnSave) {
-					text = sortHledgerJournal(text);
+					text = sortHledgerJournal(text, getSortOptionsFromConfiguration(config));
 				}
 
 				// Apply formatting if enabled
 				if (formatOnSave) {
-					const formatterOptions = getFormatterOptionsFromConfiguration(config);
-					text = formatHledgerJournal(text, formatterOptions);
+					formatterOptions = getFormatterOptionsFromConfiguration(config);
+					text = formatHledgerJournal(text, { ...formatterOptions, lineEnding: 'preserve' });
+					endOfLineEdits.push(...getEndOfLineEdits(formatterOptions));
+				}
+
+				// Save the document as it is rather than a result that changed its meaning
+				if (!isMeaningKept(config, originalText, text, formatOnSave ? 'formatting' : 'sorting', formatterOptions)) {
+					return;
 				}
 
 				event.waitUntil(Promise.resolve([
-					new vscode.TextEdit(
-						new vscode.Range(
-							document.positionAt(0),
-							document.positionAt(document.getText().length)
-						),
-						text
-					)
+					...getDocumentEdits(document, text),
+					...endOfLineEdits
 				]));
 			}
 		}
@@ -130,19 +295,17 @@ export function activate(context: vscode.ExtensionContext) {
 		],
 		{
 			provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
-				const text = document.getText();
 				const config = vscode.workspace.getConfiguration('hledger-formatter');
 				const formatterOptions = getFormatterOptionsFromConfiguration(config);
-				const formattedText = formatHledgerJournal(text, formatterOptions);
+				const text = document.getText();
+				const formattedText = formatHledgerJournal(text, { ...formatterOptions, lineEnding: 'preserve' });
+				if (!isMeaningKept(config, text, formattedText, 'formatting', formatterOptions)) {
+					return [];
+				}
 
 				return [
-					new vscode.TextEdit(
-						new vscode.Range(
-							document.positionAt(0),
-							document.positionAt(text.length)
-						),
-						formattedText
-					)
+					...getDocumentEdits(document, formattedText),
+					...getEndOfLineEdits(formatterOptions)
 				];
 			}
 		}
@@ -160,22 +323,33 @@ export function activate(context: vscode.ExtensionContext) {
 				document: vscode.TextDocument,
 				range: vscode.Range
 			): vscode.TextEdit[] {
-				// For simplicity, we'll format the entire document
-				// A more advanced implementation could format just the selected transactions
-				const text = document.getText();
+				// Format only the entries the range touches; a selection ending at the start
+				// of a line does not include that line
+				const endLine = range.end.character === 0 && range.end.line > range.start.line
+					? range.end.line - 1
+					: range.end.line;
 				const config = vscode.workspace.getConfiguration('hledger-formatter');
 				const formatterOptions = getFormatterOptionsFromConfiguration(config);
-				const formattedText = formatHledgerJournal(text, formatterOptions);
+				const text = document.getText();
+				const edit = formatHledgerJournalRange(text, range.start.line, endLine, formatterOptions);
+				if (!edit) {
+					return [];
+				}
 
-				return [
-					new vscode.TextEdit(
-						new vscode.Range(
-							document.positionAt(0),
-							document.positionAt(text.length)
-						),
-						formattedText
-					)
-				];
+				const rangeStart = document.offsetAt(new vscode.Position(edit.startLine, 0));
+				const rangeEnd = document.offsetAt(new vscode.Position(edit.endLine, document.lineAt(edit.endLine).text.length));
+				// Check the whole journal, since entries can depend on directives above them
+				const formattedText = text.slice(0, rangeStart) + edit.text + text.slice(rangeEnd);
+				if (!isMeaningKept(config, text, formattedText, 'formatting', formatterOptions)) {
+					return [];
+				}
+
+				// Replace only the lines of the formatted entries that changed
+				const rangeText = text.slice(rangeStart, rangeEnd);
+				return computeLineEdits(rangeText, edit.text).map(lineEdit => new vscode.TextEdit(
+					new vscode.Range(document.positionAt(rangeStart + lineEdit.start), document.positionAt(rangeStart + lineEdit.end)),
+					lineEdit.text
+				));
 			}
 		}
 	);
@@ -206,13 +380,7 @@ export function activate(context: vscode.ExtensionContext) {
 		const formatterOptions = getFormatterOptionsFromConfiguration(config);
 		const modifiedText = toggleCommentLines(text, startLine, endLine, formatterOptions);
 
-		editor.edit((editBuilder) => {
-			const fullRange = new vscode.Range(
-				document.positionAt(0),
-				document.positionAt(text.length)
-			);
-			editBuilder.replace(fullRange, modifiedText);
-		});
+		applyDocumentText(editor, modifiedText);
 	});
 
 	// Create new journal file command
@@ -306,15 +474,13 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const text = document.getText();
-		const sortedText = sortHledgerJournal(text);
+		const config = vscode.workspace.getConfiguration('hledger-formatter');
+		const sortedText = sortHledgerJournal(text, getSortOptionsFromConfiguration(config));
+		if (!isMeaningKept(config, text, sortedText, 'sorting')) {
+			return;
+		}
 
-		editor.edit((editBuilder) => {
-			const fullRange = new vscode.Range(
-				document.positionAt(0),
-				document.positionAt(text.length)
-			);
-			editBuilder.replace(fullRange, sortedText);
-		}).then(success => {
+		applyDocumentText(editor, sortedText).then(success => {
 			if (success) {
 				vscode.window.showInformationMessage('Journal entries sorted by date.');
 			} else {
@@ -344,6 +510,21 @@ export function activate(context: vscode.ExtensionContext) {
 		new HledgerBalancingAmountProvider()
 	);
 
+	// Formatter warnings, kept up to date as journals are opened and edited
+	const formatterDiagnostics = vscode.languages.createDiagnosticCollection('hledger-formatter');
+	vscode.workspace.textDocuments.forEach(document => updateFormatterDiagnostics(formatterDiagnostics, document));
+	const diagnosticsListeners = [
+		vscode.workspace.onDidOpenTextDocument(document => updateFormatterDiagnostics(formatterDiagnostics, document)),
+		vscode.workspace.onDidChangeTextDocument(event => updateFormatterDiagnostics(formatterDiagnostics, event.document)),
+		vscode.workspace.onDidCloseTextDocument(document => formatterDiagnostics.delete(document.uri)),
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('hledger-formatter.showFormatterWarnings')) {
+				vscode.workspace.textDocuments.forEach(document => updateFormatterDiagnostics(formatterDiagnostics, document));
+			}
+		})
+	];
+
+	context.subscriptions.push(formatterDiagnostics, ...diagnosticsListeners);
 	context.subscriptions.push(formatCommand, formatOnSaveDisposable, formatterProvider, rangeFormatterProvider, toggleCommentCommand, newFileCommand, sortCommand, accountCompletionProvider, balancingAmountProvider);
 }
 
@@ -567,35 +748,16 @@ class HledgerAccountCompletionProvider implements vscode.CompletionItemProvider
 				continue;
 			}
 
-			// Extract account name (everything before two or more spaces, or before tab)
-			const match = trimmed.match(/^([^\s]+(?:\s+[^\s]+)*?)(?:\s{2,}|\t)/);
-			if (match) {
-				const account = match[1].trim();
-				if (account && !account.startsWith(';')) {
-					accounts.add(account);
-
-					// Also add parent accounts for hierarchical completions
-					const parts = account.split(':');
-					for (let i = 1; i < parts.length; i++) {
-						const parentAccount = parts.slice(0, i).join(':');
-						accounts.add(parentAccount);
-					}
-				}
-			} else {
-				// Line might be an account without an amount
-				const accountOnly = trimmed.match(/^([^\s;]+(?::[^\s;]+)*)/);
-				if (accountOnly) {
-					const account = accountOnly[1].trim();
-					if (account) {
-						accounts.add(account);
-
-						// Also add parent accounts
-						const parts = account.split(':');
-						for (let i = 1; i < parts.length; i++) {
-							const parentAccount = parts.slice(0, i).join(':');
-							accounts.add(parentAccount);
-						}
-					}
+			// Extract the account name, without a status marker or virtual posting brackets
+			const { account } = extractPostingDetail(line);
+			if (account) {
+				accounts.add(account);
+
+				// Also add parent accounts for hierarchical completions
+				const parts = account.split(':');
+				for (let i = 1; i < parts.length; i++) {
+					const parentAccount = parts.slice(0, i).join(':');
+					accounts.add(parentAccount);
 				}
 			}
 		}
@@ -646,19 +808,17 @@ class HledgerBalancingAmountProvider implements vscode.InlineCompletionItemProvi
 			return undefined;
 		}
 
-		// Don't suggest if line already has an amount
-		// Check if there's already two spaces or a tab followed by a potential amount
-		const hasAmount = /\s{2,}|\t/.test(trimmed) && /[\d$€£¥-]/.test(trimmed.split(/\s{2,}|\t/)[1] || '');
-		if (hasAmount) {
-			return undefined;
-		}
-
 		// Extract account name from current line
 		const detail = extractPostingDetail(lineText);
 		if (!detail.account) {
 			return undefined;
 		}
 
+		// Don't suggest if line already has an amount or balance assignment; a trailing comment doesn't count
+		if (detail.amount || detail.assertion) {
+			return undefined;
+		}
+
 		if (isMetadataPostingAccount(detail.account)) {
 			return undefined;
 		}
@@ -672,21 +832,34 @@ class HledgerBalancingAmountProvider implements vscode.InlineCompletionItemProvi
 		// Get formatter options for amount formatting
 		const formatterOptions = getFormatterOptionsFromConfiguration(config);
 
-		// Calculate balancing amount with proper spacing
-		const balancingAmount = calculateBalancingAmount(transaction, formatterOptions, detail.account, {
+		// Calculate one balancing amount per unbalanced commodity, with proper spacing, in the
+		// styles the journal's commodity directives and earlier postings use
+		const balancingContext = {
 			currentLineText: lineText,
-			cursorColumn: position.character
-		});
-		if (!balancingAmount) {
+			cursorColumn: position.character,
+			commodityStyles: collectCommodityStyles(parseJournal(readSourceText(document.getText()).text))
+		};
+		const balancingAmounts = calculateBalancingAmounts(transaction, formatterOptions, detail.account, balancingContext);
+		if (balancingAmounts.length === 0) {
 			return undefined;
 		}
 
-		// Create inline completion item
-		const item = new vscode.InlineCompletionItem(balancingAmount);
-		// Insert at the end of the current line text (after account name)
-		item.range = new vscode.Range(position, position);
+		// With several commodities, first offer a posting per commodity in one insertion,
+		// then each amount on its own
+		const insertions = [...balancingAmounts];
+		if (balancingAmounts.length > 1) {
+			const multiLineInsertion = calculateBalancingInsertion(transaction, formatterOptions, detail.account, balancingContext);
+			if (multiLineInsertion) {
+				insertions.unshift(multiLineInsertion);
+			}
+		}
 
-		return [item];
+		// Insert at the end of the current line text (after account name)
+		return insertions.map(insertion => {
+			const item = new vscode.InlineCompletionItem(insertion);
+			item.range = new vscode.Range(position, position);
+			return item;
+		});
 	}
 }
 
@@ -700,43 +873,15 @@ function parseCurrentTransaction(document: vscode.TextDocument, currentLine: num
 	headerLine: number;
 	lines: string[];
 } | null {
-	const lines = document.getText().split('\n');
-
-	// Find the start of the transaction (look backwards for date line)
-	let headerLine = -1;
-	for (let i = currentLine; i >= 0; i--) {
-		const line = lines[i].trim();
-		if (isTransactionHeaderLine(line)) {
-			headerLine = i;
-			break;
-		}
-		// If we hit an empty line or another transaction, we're not in a transaction
-		if (line === '' && i < currentLine) {
-			return null;
-		}
-	}
-
-	if (headerLine === -1) {
+	const node = findNodeAtLine(parseJournal(readSourceText(document.getText()).text), currentLine);
+	// Auto posting rules don't balance, so only dated and periodic transactions qualify
+	if (!node || (node.type !== 'transaction' && node.type !== 'periodicTransaction')) {
 		return null;
 	}
 
-	// Find the end of the transaction (look forwards for empty line or next transaction)
-	let endLine = currentLine;
-	for (let i = currentLine + 1; i < lines.length; i++) {
-		const line = lines[i].trim();
-		if (line === '' || isTransactionHeaderLine(line)) {
-			endLine = i - 1;
-			break;
-		}
-		endLine = i;
-	}
-
-	// Extract transaction lines
-	const transactionLines = lines.slice(headerLine, endLine + 1);
-
 	return {
-		headerLine,
-		lines: transactionLines
+		headerLine: node.span.start.line,
+		lines: node.raw.split('\n')
 	};
 }
 